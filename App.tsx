@@ -1,8 +1,10 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { supabase } from './supabaseClient';
-import { Profile } from './types';
+import { backend, AuthSession } from './data';
+import { Profile, UserRole } from './types';
+import { assertRoleColumn, hasRole } from './lib/roles';
+import { isDeletionDue, purgeAccount } from './lib/accountDeletion';
 import { Database, AlertCircle, Loader2, RefreshCcw } from 'lucide-react';
 
 // Pages
@@ -13,17 +15,23 @@ import CreatePost from './pages/CreatePost';
 import ProfilePage from './pages/ProfilePage';
 import ReviewPage from './pages/ReviewPage';
 import AdminPanel from './pages/AdminPanel';
+import PostResultsPage from './pages/PostResultsPage';
+import SettingsPage from './pages/SettingsPage';
+import SetupDiagnostics from './pages/SetupDiagnostics';
 
 // Components
 import Navbar from './components/Navbar';
+import DeletionBanner from './components/DeletionBanner';
 
 interface ProtectedRouteProps {
-  session: any;
+  session: AuthSession | null;
   profile: Profile | null;
+  // Users without at least this role are sent back to the feed
+  requiredRole?: UserRole;
   children: React.ReactNode;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ session, profile, children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ session, profile, requiredRole, children }) => {
   if (!session) return <Navigate to="/auth" />;
 
   if (!profile) {
@@ -48,51 +56,75 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ session, profile, child
     return <Navigate to="/onboarding" />;
   }
 
+  if (requiredRole && !hasRole(profile, requiredRole)) {
+    return <Navigate to="/" replace />;
+  }
+
   return <>{children}</>;
 };
 
 const App: React.FC = () => {
-  const [session, setSession] = useState<any>(null);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [dbError, setDbError] = useState<string | null>(null);
+  // initAuth and the auth listener both fetch the profile; only one may purge
+  const purging = useRef<Promise<void> | null>(null);
+
+  // Ends with the user signed out, whether or not the purge went through
+  const finishDeletion = (userId: string) => {
+    if (!purging.current) {
+      purging.current = (async () => {
+        try {
+          await purgeAccount(userId);
+          alert("Your account and everything in it have been deleted.");
+        } catch (err: any) {
+          console.error("Account deletion error:", err);
+          alert(`Your account could not be deleted: ${err.message || 'unknown error'}. Sign in again to retry.`);
+        } finally {
+          await backend.auth.signOut().catch(err => console.error("Sign out error:", err));
+          purging.current = null;
+        }
+      })();
+    }
+    return purging.current;
+  };
 
   const fetchProfile = async (userId: string) => {
+    if (purging.current) {
+      await purging.current;
+      return;
+    }
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
-
-      if (error) {
-        if (error.code === '42P01' || error.message.toLowerCase().includes('relation "profiles" does not exist')) {
-          setDbError("The 'profiles' table is missing. Did you run the SQL script in Supabase?");
-          return;
-        }
-        
-        if (error.code === 'PGRST116') {
-          // Self-heal
-          const { data: newProfile } = await supabase
-            .from('profiles')
-            .upsert({ id: userId, username: session?.user?.email?.split('@')[0] || 'user', interests: [] })
-            .select().single();
-          if (newProfile) setProfile(newProfile);
-          return;
-        }
-        throw error;
+      const data = await backend.profiles.get(userId);
+
+      if (!data) {
+        // Self-heal
+        const user = await backend.auth.getUser();
+        const newProfile = await backend.profiles.upsert({ id: userId, username: user?.email?.split('@')[0] || 'user', interests: [] });
+        assertRoleColumn(newProfile);
+        setProfile(newProfile);
+        return;
+      }
+      assertRoleColumn(data);
+      // The grace period is over: finish the deletion the user asked for
+      if (isDeletionDue(data)) {
+        await finishDeletion(userId);
+        return;
       }
       setProfile(data);
       setDbError(null);
     } catch (err: any) {
+      // The setup screen runs the backend diagnostics to find the cause
       console.error("Profile Fetch Exception:", err);
+      setDbError(err.message || 'Unknown error');
     }
   };
 
   useEffect(() => {
     const initAuth = async () => {
       try {
-        const { data: { session: currentSession } } = await supabase.auth.getSession();
+        const currentSession = await backend.auth.getSession();
         setSession(currentSession);
         if (currentSession) {
           await fetchProfile(currentSession.user.id);
@@ -106,16 +138,17 @@ const App: React.FC = () => {
 
     initAuth();
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, newSession) => {
+    const unsubscribe = backend.auth.onAuthStateChange(async (newSession) => {
       setSession(newSession);
       if (newSession) {
         await fetchProfile(newSession.user.id);
       } else {
         setProfile(null);
+        setDbError(null);
       }
     });
 
-    return () => subscription.unsubscribe();
+    return unsubscribe;
   }, []);
 
   if (loading) {
@@ -126,19 +159,26 @@ const App: React.FC = () => {
     );
   }
 
+  if (session && dbError) {
+    return <SetupDiagnostics userId={session.user.id} error={dbError} onRetry={() => fetchProfile(session.user.id)} />;
+  }
+
   return (
     <Router>
       <div className="min-h-screen pb-20 md:pb-0 md:pt-16">
         {session && profile && <Navbar profile={profile} />}
+        {session && profile?.deletion_requested_at && <DeletionBanner profile={profile} onCancelled={() => fetchProfile(session.user.id)} />}
         <Routes>
           <Route path="/auth" element={!session ? <AuthPage /> : <Navigate to="/" />} />
           <Route path="/onboarding" element={session ? (profile ? <Onboarding onComplete={() => fetchProfile(session.user.id)} /> : <Loader2 className="animate-spin mx-auto mt-20" />) : <Navigate to="/auth" />} />
           
           <Route path="/" element={<ProtectedRoute session={session} profile={profile}><Dashboard profile={profile!} refreshProfile={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
           <Route path="/create" element={<ProtectedRoute session={session} profile={profile}><CreatePost profile={profile!} onCreated={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
-          <Route path="/profile" element={<ProtectedRoute session={session} profile={profile}><ProfilePage profile={profile!} /></ProtectedRoute>} />
-          <Route path="/review/:postId" element={<ProtectedRoute session={session} profile={profile}><ReviewPage onComplete={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
-          <Route path="/admin" element={<ProtectedRoute session={session} profile={profile}><AdminPanel profile={profile!} onUpdate={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
+          <Route path="/profile" element={<ProtectedRoute session={session} profile={profile}><ProfilePage profile={profile!} refreshProfile={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
+          <Route path="/settings" element={<ProtectedRoute session={session} profile={profile}><SettingsPage profile={profile!} onSaved={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
+          <Route path="/post/:postId" element={<ProtectedRoute session={session} profile={profile}><PostResultsPage profile={profile!} /></ProtectedRoute>} />
+          <Route path="/review/:postId" element={<ProtectedRoute session={session} profile={profile}><ReviewPage profile={profile!} onComplete={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
+          <Route path="/admin" element={<ProtectedRoute session={session} profile={profile} requiredRole="moderator"><AdminPanel profile={profile!} onUpdate={() => fetchProfile(session!.user.id)} /></ProtectedRoute>} />
           
           <Route path="*" element={<Navigate to="/" />} />
         </Routes>
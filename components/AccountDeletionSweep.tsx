@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { backend } from '../data';
+import { purgeAccount } from '../lib/accountDeletion';
+import { ACCOUNT_DELETION } from '../types';
+import { Loader2, UserX } from 'lucide-react';
+
+// Deletes accounts whose grace period ran out without their owner signing in
+// again. Lists them when the panel opens; deleting them takes a confirmation.
+const AccountDeletionSweep: React.FC = () => {
+  const [due, setDue] = useState<string[] | null>(null);
+  const [sweeping, setSweeping] = useState(false);
+  const [lastRemoved, setLastRemoved] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchDue();
+  }, []);
+
+  const fetchDue = async () => {
+    try {
+      setDue(await backend.accounts.listDueDeletions());
+    } catch (err) {
+      console.error("Due deletions fetch error:", err);
+    }
+  };
+
+  const runSweep = async () => {
+    if (!due || due.length === 0) return;
+    if (!confirm(`Permanently delete ${due.length} account${due.length === 1 ? '' : 's'} with all their posts, reviews and photos? This cannot be undone.`)) return;
+    setSweeping(true);
+    let removed = 0;
+    try {
+      for (const userId of due) {
+        await purgeAccount(userId);
+        removed++;
+      }
+    } catch (err: any) {
+      console.error("Account deletion sweep error:", err);
+      alert(`Deletion stopped: ${err.message || 'unknown error'}`);
+    } finally {
+      setLastRemoved(removed);
+      setSweeping(false);
+      fetchDue();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-black text-slate-800 uppercase tracking-tight flex items-center gap-2 mb-1">
+            <UserX size={24} className="text-indigo-600" />
+            Account Deletions
+          </h2>
+          <p className="text-xs text-slate-500 font-medium">
+            {due === null ? 'Checking...' : `${due.length} account${due.length === 1 ? '' : 's'} past the ${ACCOUNT_DELETION.graceDays}-day grace period`}
+            {lastRemoved !== null && ` · deleted ${lastRemoved} just now`}
+          </p>
+        </div>
+        <button
+          onClick={runSweep}
+          disabled={sweeping || !due || due.length === 0}
+          className="px-4 py-3 bg-slate-50 hover:bg-slate-100 rounded-xl transition-all text-slate-600 text-xs font-black uppercase tracking-widest flex items-center gap-2 disabled:opacity-50"
+        >
+          {sweeping && <Loader2 size={14} className="animate-spin" />}
+          {sweeping ? 'Deleting' : 'Delete Now'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AccountDeletionSweep;
@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface AvatarProps {
+  username?: string;
+  url?: string | null;
+  // Anonymous reviewers get a placeholder, never their picture
+  anonymous?: boolean;
+  // Size and text size, e.g. 'w-10 h-10 text-sm'
+  className?: string;
+}
+
+const Avatar: React.FC<AvatarProps> = ({ username, url, anonymous = false, className = 'w-10 h-10 text-sm' }) => {
+  if (!anonymous && url) {
+    return <img src={url} alt={username ? `@${username}` : ''} className={`${className} rounded-full object-cover bg-slate-100 flex-shrink-0`} />;
+  }
+  return (
+    <div className={`${className} rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold flex-shrink-0`}>
+      {anonymous ? '?' : username?.[0]?.toUpperCase() || '?'}
+    </div>
+  );
+};
+
+export default Avatar;
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cropAvatar, decodeImage } from '../lib/images';
+import { context2d } from '../lib/redaction';
+import { Check, Loader2, X, ZoomIn } from 'lucide-react';
+
+interface AvatarCropperProps {
+  file: File;
+  onCrop: (avatar: { blob: Blob; extension: string }) => void;
+  onClose: () => void;
+}
+
+// Canvas pixels of the square viewport; it is displayed smaller
+const VIEW = 640;
+const MAX_ZOOM = 4;
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+// Drag to position and zoom to frame a square crop. At zoom 1 the photo's
+// shorter edge fills the viewport.
+const AvatarCropper: React.FC<AvatarCropperProps> = ({ file, onCrop, onClose }) => {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [zoom, setZoom] = useState(1);
+  // Photo centre relative to the viewport centre, in canvas pixels
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragFrom = useRef<Offset | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let decoded: ImageBitmap | null = null;
+    decodeImage(file)
+      .then(result => {
+        decoded = result;
+        if (cancelled) result.close();
+        else setBitmap(result);
+      })
+      .catch(err => setError(err.message));
+    return () => {
+      cancelled = true;
+      decoded?.close();
+    };
+  }, [file]);
+
+  const scale = bitmap ? (VIEW / Math.min(bitmap.width, bitmap.height)) * zoom : 1;
+
+  // Keeps the viewport covered by the photo
+  const clamp = ({ x, y }: Offset): Offset => {
+    if (!bitmap) return { x, y };
+    const maxX = (bitmap.width * scale - VIEW) / 2;
+    const maxY = (bitmap.height * scale - VIEW) / 2;
+    return { x: Math.max(-maxX, Math.min(maxX, x)), y: Math.max(-maxY, Math.min(maxY, y)) };
+  };
+
+  useEffect(() => {
+    setOffset(current => clamp(current));
+  }, [bitmap, zoom]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !bitmap) return;
+    const context = context2d(canvas);
+    const width = bitmap.width * scale;
+    const height = bitmap.height * scale;
+    context.clearRect(0, 0, VIEW, VIEW);
+    context.drawImage(bitmap, VIEW / 2 + offset.x - width / 2, VIEW / 2 + offset.y - height / 2, width, height);
+  }, [bitmap, scale, offset]);
+
+  const startDrag = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const drag = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragFrom.current) return;
+    // Pointer movement is in CSS pixels, the offset in canvas pixels
+    const ratio = VIEW / e.currentTarget.getBoundingClientRect().width;
+    const dx = (e.clientX - dragFrom.current.x) * ratio;
+    const dy = (e.clientY - dragFrom.current.y) * ratio;
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+    setOffset(current => clamp({ x: current.x + dx, y: current.y + dy }));
+  };
+
+  const endDrag = () => {
+    dragFrom.current = null;
+  };
+
+  const save = async () => {
+    if (!bitmap) return;
+    setSaving(true);
+    try {
+      const size = VIEW / scale;
+      onCrop(await cropAvatar(bitmap, {
+        x: bitmap.width / 2 - (VIEW / 2 + offset.x) / scale,
+        y: bitmap.height / 2 - (VIEW / 2 + offset.y) / scale,
+        size
+      }));
+    } catch (err: any) {
+      console.error("Avatar crop error:", err);
+      setError(err.message || 'Could not crop the photo.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-950/90 backdrop-blur-sm flex flex-col items-center justify-center p-4 gap-6">
+      <div className="relative w-72 h-72">
+        {error ? (
+          <p className="absolute inset-0 flex items-center justify-center text-center text-red-300 font-bold text-sm">{error}</p>
+        ) : !bitmap ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="animate-spin text-indigo-400" size={40} />
+          </div>
+        ) : (
+          <>
+            <canvas
+              ref={canvasRef}
+              width={VIEW}
+              height={VIEW}
+              onPointerDown={startDrag}
+              onPointerMove={drag}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+              className="w-full h-full rounded-3xl cursor-move touch-none"
+            />
+            {/* Avatars render as circles; dim what the circle cuts off */}
+            <div className="absolute inset-0 rounded-full pointer-events-none shadow-[0_0_0_999px_rgba(2,6,23,0.55)] border-2 border-white/70" />
+          </>
+        )}
+      </div>
+
+      <label className="flex items-center gap-3 text-slate-300">
+        <ZoomIn size={18} />
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={zoom}
+          onChange={(e) => setZoom(Number(e.target.value))}
+          disabled={!bitmap}
+          className="w-48 accent-indigo-500"
+          aria-label="Zoom"
+        />
+      </label>
+
+      <div className="flex gap-3">
+        <button type="button" onClick={onClose} className="px-6 py-3 rounded-2xl font-black text-sm bg-slate-800 text-slate-300 hover:text-white flex items-center gap-2">
+          <X size={16} /> Cancel
+        </button>
+        <button type="button" onClick={save} disabled={!bitmap || saving} className="px-6 py-3 rounded-2xl font-black text-sm bg-indigo-600 text-white hover:bg-indigo-500 flex items-center gap-2 disabled:opacity-50">
+          {saving ? <Loader2 className="animate-spin" size={16} /> : <Check size={16} />} Use Photo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AvatarCropper;
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, RefreshCcw, Timer, X } from 'lucide-react';
+
+interface CameraCaptureProps {
+  // Free photo slots; the camera closes once they are filled
+  remaining: number;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type Facing = 'user' | 'environment';
+
+// Feed cards show photos at 4:5, so captures are cropped to it
+const ASPECT = 4 / 5;
+const TIMER_OPTIONS = [0, 3, 10];
+
+export const isCameraSupported = () => !!navigator.mediaDevices?.getUserMedia;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ remaining, onCapture, onClose }) => {
+  const [facing, setFacing] = useState<Facing>('environment');
+  const [timer, setTimer] = useState(0);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setReady(false);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facing }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(err => {
+        console.error("Camera error:", err);
+        setError(err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in your browser settings, or upload a photo instead.'
+          : 'No camera could be opened on this device.');
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing]);
+
+  useEffect(() => {
+    if (remaining <= 0) onClose();
+  }, [remaining]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      capture();
+      return;
+    }
+    const tick = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(tick);
+  }, [countdown]);
+
+  // Crops the centre of the frame to the feed aspect, like the preview does
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const { videoWidth: width, videoHeight: height } = video;
+    const cropWidth = Math.min(width, height * ASPECT);
+    const cropHeight = cropWidth / ASPECT;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(cropWidth);
+    canvas.height = Math.round(cropHeight);
+    canvas.getContext('2d')?.drawImage(video, (width - cropWidth) / 2, (height - cropHeight) / 2, cropWidth, cropHeight, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  };
+
+  const shoot = () => {
+    if (timer > 0) setCountdown(timer);
+    else capture();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-950 flex flex-col items-center justify-center p-4 gap-6">
+      <button onClick={onClose} className="absolute top-4 right-4 p-3 bg-white/10 hover:bg-white/20 text-white rounded-2xl">
+        <X size={20} />
+      </button>
+
+      <div className="relative w-full max-w-sm aspect-[4/5] rounded-[2rem] overflow-hidden bg-slate-900">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedData={() => setReady(true)}
+          className={`w-full h-full object-cover ${facing === 'user' ? '-scale-x-100' : ''}`}
+        />
+        {/* Framing guide: rule of thirds over the exact 4:5 crop */}
+        {ready && (
+          <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3 border-2 border-white/60 rounded-[2rem]">
+            {Array.from({ length: 9 }).map((_, i) => (
+              <div key={i} className="border border-white/15" />
+            ))}
+          </div>
+        )}
+        {!ready && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="animate-spin text-indigo-400" size={40} />
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-8 text-center">
+            <p className="text-red-300 font-bold text-sm">{error}</p>
+          </div>
+        )}
+        {countdown !== null && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+            <span className="text-8xl font-black text-white">{countdown}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-6">
+        <button
+          onClick={() => setTimer(TIMER_OPTIONS[(TIMER_OPTIONS.indexOf(timer) + 1) % TIMER_OPTIONS.length])}
+          className="w-14 h-14 bg-white/10 hover:bg-white/20 text-white rounded-2xl flex flex-col items-center justify-center"
+          title="Self-timer"
+        >
+          <Timer size={18} />
+          <span className="text-[10px] font-black">{timer > 0 ? `${timer}s` : 'Off'}</span>
+        </button>
+        <button
+          onClick={shoot}
+          disabled={!ready || countdown !== null}
+          className="w-20 h-20 rounded-full bg-white border-4 border-indigo-500 flex items-center justify-center text-indigo-600 disabled:opacity-40 active:scale-95 transition-all"
+          title="Take photo"
+        >
+          <Camera size={28} />
+        </button>
+        <button
+          onClick={() => setFacing(facing === 'user' ? 'environment' : 'user')}
+          disabled={countdown !== null}
+          className="w-14 h-14 bg-white/10 hover:bg-white/20 text-white rounded-2xl flex items-center justify-center disabled:opacity-40"
+          title="Switch camera"
+        >
+          <RefreshCcw size={18} />
+        </button>
+      </div>
+      <p className="text-slate-400 text-xs font-bold uppercase tracking-widest">
+        {remaining} slot{remaining === 1 ? '' : 's'} left
+      </p>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Post, Review } from '../types';
+import { rankPairwise } from '../lib/ranking';
+import { GitCompare, Quote } from 'lucide-react';
+
+interface ComparisonResultsProps {
+  post: Post;
+  reviews: Review[];
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const ComparisonResults: React.FC<ComparisonResultsProps> = ({ post, reviews }) => {
+  const votes = reviews.flatMap(r => r.comparisons || []);
+  const { ranking, totalVotes, preference } = rankPairwise(votes, post.image_urls.length);
+  const reasons = votes.filter(v => v.reason);
+
+  return (
+    <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+      <h3 className="text-xl font-bold mb-2 flex items-center gap-2">
+        <GitCompare size={22} className="text-indigo-600" />
+        A/B Ranking
+      </h3>
+      <p className="text-xs text-slate-400 font-medium mb-6">
+        Ranked with a Bradley–Terry model fitted to {totalVotes} pairwise vote{totalVotes === 1 ? '' : 's'}.
+        Margins are the modelled chance a reviewer prefers one photo over the next.
+      </p>
+
+      {totalVotes === 0 ? (
+        <p className="text-slate-400 text-center py-12 italic">The ranking will appear here once reviewers compare your photos.</p>
+      ) : (
+        <div className="space-y-4">
+          {ranking.map((item, rank) => {
+            const next = ranking[rank + 1];
+            return (
+              <div key={item.imageIndex} className="flex items-center gap-4 bg-slate-50 rounded-2xl p-4">
+                <span className={`w-8 text-center text-2xl font-black ${rank === 0 ? 'text-amber-500' : 'text-slate-300'}`}>{rank + 1}</span>
+                <img src={post.image_urls[item.imageIndex]} alt={`Photo ${item.imageIndex + 1}`} className="w-14 h-16 rounded-xl object-cover border border-slate-200" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between items-baseline mb-1">
+                    <p className="font-bold text-slate-800">Photo {item.imageIndex + 1}</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">{item.wins}W – {item.losses}L</p>
+                  </div>
+                  <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: percent(item.strength) }} />
+                  </div>
+                  {next && (
+                    <p className="text-[11px] text-slate-500 mt-2">
+                      Preferred over Photo {next.imageIndex + 1} <span className="font-black text-indigo-600">{percent(preference(item.imageIndex, next.imageIndex))}</span> of the time
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {reasons.length > 0 && (
+        <div className="mt-8">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3">Why reviewers chose</p>
+          <div className="space-y-2">
+            {reasons.map((vote, i) => (
+              <div key={i} className="flex items-start gap-3 bg-slate-50 p-3 rounded-xl border border-slate-100">
+                <Quote size={14} className="text-indigo-300 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-slate-600">
+                  <span className="font-bold text-slate-800">Photo {vote.winner_index + 1} over {vote.loser_index + 1}:</span> {vote.reason}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonResults;
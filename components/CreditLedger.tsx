@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { backend } from '../data';
+import { CREDIT_RULES, CreditTransaction, Profile } from '../types';
+import { CREDIT_KIND_LABELS, reviewsNeededToPost } from '../lib/credits';
+import { Coins, Loader2 } from 'lucide-react';
+
+interface CreditLedgerProps {
+  profile: Profile;
+}
+
+const VISIBLE_ENTRIES = 8;
+
+const CreditLedger: React.FC<CreditLedgerProps> = ({ profile }) => {
+  const [entries, setEntries] = useState<CreditTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [profile.id, profile.credit_balance]);
+
+  const fetchLedger = async () => {
+    try {
+      setEntries(await backend.credits.listLedger(profile.id));
+    } catch (err) {
+      console.error("Ledger fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const needed = reviewsNeededToPost(profile.credit_balance);
+  const visible = showAll ? entries : entries.slice(0, VISIBLE_ENTRIES);
+
+  return (
+    <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+      <h3 className="font-bold text-slate-800 mb-6 flex items-center gap-2">
+        <Coins size={18} className="text-amber-500" />
+        Review Credits
+      </h3>
+      <div className="flex items-end justify-between mb-6">
+        <p className="text-4xl font-black text-slate-800">{profile.credit_balance}</p>
+        <p className="text-[11px] text-slate-400 font-bold text-right">
+          {needed > 0
+            ? `${needed} more review${needed === 1 ? '' : 's'} to post`
+            : `Posts cost ${CREDIT_RULES.reviewCost} credit per review`}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6"><Loader2 className="animate-spin text-indigo-600" size={24} /></div>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-slate-400 italic text-center py-4">Review a post to earn your first credit.</p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(entry => (
+            <div key={entry.id} className="flex justify-between items-center text-xs">
+              <div>
+                <p className="font-bold text-slate-600">{CREDIT_KIND_LABELS[entry.kind]}</p>
+                <p className="text-[10px] text-slate-400">{new Date(entry.created_at).toLocaleDateString()}</p>
+              </div>
+              <span className={`font-black ${entry.amount > 0 ? 'text-emerald-600' : 'text-slate-500'}`}>
+                {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+              </span>
+            </div>
+          ))}
+          {entries.length > VISIBLE_ENTRIES && (
+            <button onClick={() => setShowAll(!showAll)} className="w-full pt-2 text-xs font-bold text-indigo-500 hover:underline">
+              {showAll ? 'Show less' : `Show all ${entries.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CreditLedger;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { backend } from '../data';
+import { Profile } from '../types';
+import { deletionDate } from '../lib/accountDeletion';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+interface DeletionBannerProps {
+  profile: Profile;
+  onCancelled: () => void;
+}
+
+// Shown on every page while the account waits out its deletion grace period
+const DeletionBanner: React.FC<DeletionBannerProps> = ({ profile, onCancelled }) => {
+  const [cancelling, setCancelling] = useState(false);
+  const date = deletionDate(profile);
+  if (!date) return null;
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      await backend.accounts.cancelDeletion();
+      onCancelled();
+    } catch (err: any) {
+      console.error("Cancel deletion error:", err);
+      alert(`Could not cancel the deletion: ${err.message || 'unknown error'}`);
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-100 px-4 py-3">
+      <div className="max-w-5xl mx-auto flex flex-col sm:flex-row items-center justify-between gap-3 text-sm">
+        <p className="text-amber-800 font-semibold flex items-center gap-2">
+          <AlertTriangle size={16} className="flex-shrink-0" />
+          Your account will be deleted on {date.toLocaleDateString()}.
+        </p>
+        <button
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="px-4 py-1.5 rounded-lg bg-white border border-amber-200 text-amber-700 font-bold hover:bg-amber-100 flex items-center gap-2 disabled:opacity-50"
+        >
+          {cancelling && <Loader2 size={14} className="animate-spin" />}
+          Keep My Account
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DeletionBanner;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { DIAGNOSTIC_GROUPS, DiagnosticResult, runDiagnostics } from '../lib/diagnostics';
+import { Activity, CheckCircle, Loader2, RefreshCw, XCircle } from 'lucide-react';
+
+interface DiagnosticsReportProps {
+  userId: string;
+}
+
+// Actively probes the backend and lists a fix for every failing check
+const DiagnosticsReport: React.FC<DiagnosticsReportProps> = ({ userId }) => {
+  const [results, setResults] = useState<DiagnosticResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    runChecks();
+  }, [userId]);
+
+  const runChecks = async () => {
+    setLoading(true);
+    try {
+      setResults(await runDiagnostics(userId));
+    } catch (err) {
+      console.error("Diagnostics error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const failures = results.filter(result => !result.passed);
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-black text-slate-800 uppercase tracking-tight flex items-center gap-2">
+          <Activity size={24} className="text-indigo-600" />
+          Backend Health
+        </h2>
+        <button onClick={runChecks} disabled={loading} className="p-3 bg-slate-50 hover:bg-slate-100 rounded-xl transition-all text-slate-500">
+          <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="py-20 flex flex-col items-center justify-center gap-4">
+          <Loader2 className="animate-spin text-indigo-600" size={32} />
+          <p className="text-slate-400 font-black uppercase text-xs tracking-widest">Running checks...</p>
+        </div>
+      ) : (
+        <>
+          <div className={`p-4 rounded-2xl mb-6 border ${failures.length === 0 ? 'bg-emerald-50 border-emerald-100' : 'bg-red-50 border-red-100'}`}>
+            <p className={`text-xs font-bold ${failures.length === 0 ? 'text-emerald-700' : 'text-red-700'}`}>
+              {results.length - failures.length} of {results.length} checks passed.
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            {DIAGNOSTIC_GROUPS.map(group => (
+              <div key={group}>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">{group}</p>
+                <div className="space-y-2">
+                  {results.filter(result => result.group === group).map(result => (
+                    <div key={result.id} className="text-xs">
+                      <div className="flex items-start gap-3">
+                        {result.passed
+                          ? <CheckCircle size={16} className="text-emerald-500 flex-shrink-0" />
+                          : <XCircle size={16} className="text-red-500 flex-shrink-0" />}
+                        <span className={`font-bold break-words min-w-0 ${result.passed ? 'text-slate-500' : 'text-slate-800'}`}>{result.label}</span>
+                      </div>
+                      {!result.passed && (
+                        <div className="ml-7 mt-1 space-y-1">
+                          <p className="text-[10px] font-mono text-red-500 break-words">{result.detail}</p>
+                          <p className="text-slate-600 font-medium">{result.remediation}</p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsReport;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { CATEGORIES, Category } from '../types';
+import { DEFAULT_FEED_FILTERS, FEED_SORTS, FeedFilters, NEARLY_COMPLETE_REVIEWS, QUESTION_FILTERS } from '../lib/feedFilters';
+import { RotateCcw } from 'lucide-react';
+
+interface FeedFilterPanelProps {
+  filters: FeedFilters;
+  onChange: (filters: FeedFilters) => void;
+}
+
+const optionClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${active ? 'bg-indigo-600 text-white shadow-sm' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`;
+
+const FeedFilterPanel: React.FC<FeedFilterPanelProps> = ({ filters, onChange }) => {
+  const update = (patch: Partial<FeedFilters>) => onChange({ ...filters, ...patch });
+
+  const toggleCategory = (category: Category) => update({
+    categories: filters.categories.includes(category)
+      ? filters.categories.filter(c => c !== category)
+      : [...filters.categories, category]
+  });
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-100 p-6 mb-6 space-y-5">
+      <div>
+        <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2">Sort by</p>
+        <div className="flex flex-wrap gap-2">
+          {FEED_SORTS.map(({ value, label }) => (
+            <button key={value} onClick={() => update({ sort: value })} className={optionClass(filters.sort === value)}>{label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2">Categories</p>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => update({ categories: [] })} className={optionClass(filters.categories.length === 0)}>All</button>
+          {CATEGORIES.map(category => (
+            <button key={category} onClick={() => toggleCategory(category)} className={optionClass(filters.categories.includes(category))}>{category}</button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2">Questions</p>
+        <div className="flex flex-wrap gap-2">
+          {QUESTION_FILTERS.map(({ value, label }) => (
+            <button key={value} onClick={() => update({ questions: value })} className={optionClass(filters.questions === value)}>{label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-3 text-sm font-semibold text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.hideSkipped}
+            onChange={e => update({ hideSkipped: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          Hide posts I skipped
+        </label>
+        <label className="flex items-center gap-3 text-sm font-semibold text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.nearlyComplete}
+            onChange={e => update({ nearlyComplete: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          Only posts {NEARLY_COMPLETE_REVIEWS} or fewer reviews from completion
+        </label>
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_FEED_FILTERS)}
+        className="text-xs font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-1"
+      >
+        <RotateCcw size={14} /> Reset filters
+      </button>
+    </div>
+  );
+};
+
+export default FeedFilterPanel;
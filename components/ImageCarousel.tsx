@@ -0,0 +1,80 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface ImageCarouselProps {
+  images: string[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  className?: string;
+  imageClassName?: string;
+  // Smaller controls for feed cards and thumbnails
+  compact?: boolean;
+  children?: React.ReactNode;
+}
+
+// Controlled so parents can keep per-image state (e.g. scores) in sync with
+// the visible photo. Clicks on the controls never bubble up, which lets the
+// carousel sit inside clickable cards.
+const ImageCarousel: React.FC<ImageCarouselProps> = ({
+  images,
+  index,
+  onIndexChange,
+  className = '',
+  imageClassName = '',
+  compact = false,
+  children
+}) => {
+  const count = images.length;
+  const go = (e: React.MouseEvent, next: number) => {
+    e.stopPropagation();
+    onIndexChange((next + count) % count);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (count < 2) return;
+    if (e.key === 'ArrowLeft') onIndexChange((index - 1 + count) % count);
+    if (e.key === 'ArrowRight') onIndexChange((index + 1) % count);
+  };
+
+  const arrowClass = `absolute top-1/2 -translate-y-1/2 bg-white/80 backdrop-blur-md text-slate-700 rounded-full shadow-lg hover:bg-white transition-all ${
+    compact ? 'p-1 opacity-0 group-hover:opacity-100' : 'p-2'
+  }`;
+
+  return (
+    <div className={`relative overflow-hidden ${className}`} tabIndex={count > 1 ? 0 : undefined} onKeyDown={handleKeyDown}>
+      <div className="flex h-full transition-transform duration-500" style={{ transform: `translateX(-${index * 100}%)` }}>
+        {images.map((url, i) => (
+          <img key={i} src={url} alt={`Photo ${i + 1}`} className={`w-full h-full flex-shrink-0 object-cover ${imageClassName}`} />
+        ))}
+      </div>
+
+      {children}
+
+      {count > 1 && (
+        <>
+          <button type="button" onClick={(e) => go(e, index - 1)} className={`${arrowClass} left-3`} aria-label="Previous photo">
+            <ChevronLeft size={compact ? 14 : 20} />
+          </button>
+          <button type="button" onClick={(e) => go(e, index + 1)} className={`${arrowClass} right-3`} aria-label="Next photo">
+            <ChevronRight size={compact ? 14 : 20} />
+          </button>
+          <div className="absolute bottom-4 left-0 right-0 flex justify-center gap-1.5">
+            {images.map((_, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={(e) => go(e, i)}
+                aria-label={`Show photo ${i + 1}`}
+                className={`rounded-full transition-all shadow ${compact ? 'h-1.5' : 'h-2'} ${
+                  i === index ? `bg-white ${compact ? 'w-4' : 'w-6'}` : `bg-white/60 ${compact ? 'w-1.5' : 'w-2'}`
+                }`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImageCarousel;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { LocalDraft } from '../lib/localDrafts';
+import { canAffordPost, postCost } from '../lib/credits';
+import { FileText, Image as ImageIcon, Pencil, Send, Trash2 } from 'lucide-react';
+
+interface LocalDraftListProps {
+  drafts: LocalDraft[];
+  balance: number;
+  disabled: boolean;
+  onResume: (draft: LocalDraft) => void;
+  onPublish: (draft: LocalDraft) => void;
+  onDiscard: (draft: LocalDraft) => void;
+}
+
+// Unfinished posts saved in this browser
+const LocalDraftList: React.FC<LocalDraftListProps> = ({ drafts, balance, disabled, onResume, onPublish, onDiscard }) => {
+  const [coverUrls, setCoverUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    drafts.forEach(draft => {
+      if (draft.images.length > 0) urls[draft.id] = URL.createObjectURL(draft.images[0]);
+    });
+    setCoverUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [drafts]);
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-sm p-6 border border-slate-100 mb-8">
+      <h2 className="text-[11px] font-black text-slate-400 mb-4 uppercase tracking-widest ml-1 flex items-center gap-2">
+        <FileText size={14} /> Unfinished Drafts
+      </h2>
+      <div className="space-y-3">
+        {drafts.map(draft => {
+          // Drafts started while the balance fell short can go straight out once it covers them
+          const affordable = canAffordPost(balance, draft.reviewsRequired) && draft.images.length > 0 && draft.categories.length > 0;
+          return (
+            <div key={draft.id} className="flex items-center gap-4 p-3 rounded-2xl bg-slate-50 border border-slate-100">
+              <div className="w-12 h-14 rounded-xl overflow-hidden bg-slate-200 flex-shrink-0 flex items-center justify-center">
+                {coverUrls[draft.id]
+                  ? <img src={coverUrls[draft.id]} alt="" className="w-full h-full object-cover" />
+                  : <ImageIcon size={18} className="text-slate-400" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">
+                  {draft.questions.find(q => q.trim() !== '') || `${draft.images.length} photo${draft.images.length === 1 ? '' : 's'}`}
+                </p>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                  {draft.categories.join(', ') || 'No category'} · {postCost(draft.reviewsRequired)} credits · {new Date(draft.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                {affordable && (
+                  <button onClick={() => onPublish(draft)} disabled={disabled} title="Publish now" className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-40">
+                    <Send size={18} />
+                  </button>
+                )}
+                <button onClick={() => onResume(draft)} disabled={disabled} title="Resume editing" className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-40">
+                  <Pencil size={18} />
+                </button>
+                <button onClick={() => onDiscard(draft)} disabled={disabled} title="Discard draft" className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg disabled:opacity-40">
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LocalDraftList;
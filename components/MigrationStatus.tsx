@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { backend, buildMigrationScript, MIGRATIONS, pendingMigrations } from '../data';
+import { Check, CheckCircle, Circle, Code, Copy, Loader2, RefreshCw } from 'lucide-react';
+
+// Lists every migration in data/migrations with its applied state and
+// generates the SQL for the pending ones
+const MigrationStatus: React.FC = () => {
+  const [applied, setApplied] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    fetchApplied();
+  }, []);
+
+  const fetchApplied = async () => {
+    setLoading(true);
+    try {
+      setApplied(await backend.schema.listAppliedMigrations());
+    } catch (err) {
+      console.error("Migration status error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const pending = pendingMigrations(applied);
+  const script = buildMigrationScript(pending);
+
+  const copySql = () => {
+    navigator.clipboard.writeText(script);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-black text-slate-800 uppercase tracking-tight flex items-center gap-2">
+          <Code size={24} className="text-indigo-600" />
+          Schema Migrations
+        </h2>
+        <button onClick={fetchApplied} className="p-3 bg-slate-50 hover:bg-slate-100 rounded-xl transition-all text-slate-500">
+          <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="py-20 flex justify-center">
+          <Loader2 className="animate-spin text-indigo-600" size={32} />
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2 mb-6">
+            {MIGRATIONS.map(migration => {
+              const isApplied = applied.includes(migration.version);
+              return (
+                <div key={migration.version} className="flex items-center gap-3 text-xs">
+                  {isApplied
+                    ? <CheckCircle size={16} className="text-emerald-500 flex-shrink-0" />
+                    : <Circle size={16} className="text-amber-500 flex-shrink-0" />}
+                  <span className="font-mono text-slate-400">{migration.version}</span>
+                  <span className={`font-bold ${isApplied ? 'text-slate-500' : 'text-slate-800'}`}>{migration.name.replace(/_/g, ' ')}</span>
+                  {!isApplied && <span className="ml-auto text-[8px] bg-amber-100 text-amber-700 px-2 py-0.5 rounded font-black uppercase">Pending</span>}
+                </div>
+              );
+            })}
+          </div>
+
+          {pending.length === 0 ? (
+            <div className="bg-emerald-50 border border-emerald-100 p-4 rounded-2xl">
+              <p className="text-xs text-emerald-700 font-bold">The database schema is up to date.</p>
+            </div>
+          ) : (
+            <>
+              <div className="bg-amber-50 border border-amber-100 p-4 rounded-2xl mb-6 flex items-start justify-between gap-4">
+                <p className="text-xs text-amber-800 font-bold leading-relaxed">
+                  {pending.length} migration{pending.length === 1 ? '' : 's'} pending. Paste this into your Supabase Dashboard &gt; SQL Editor, run it, then refresh.
+                </p>
+                <button
+                  onClick={copySql}
+                  className={`p-3 rounded-xl transition-all flex-shrink-0 ${copied ? 'bg-emerald-50 text-emerald-600' : 'bg-white text-slate-500 hover:bg-slate-100'}`}
+                >
+                  {copied ? <Check size={20} /> : <Copy size={20} />}
+                </button>
+              </div>
+              <pre className="bg-slate-900 text-indigo-300 p-6 rounded-2xl text-[10px] font-mono overflow-x-auto h-[450px] leading-relaxed border border-indigo-900/30">
+                {script}
+              </pre>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MigrationStatus;
@@ -3,7 +3,10 @@ import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Home, PlusSquare, User, Star, LogOut, ShieldCheck } from 'lucide-react';
 import { Profile } from '../types';
-import { supabase, isSupabaseConfigured } from '../supabaseClient';
+import { canAffordPost } from '../lib/credits';
+import { hasRole } from '../lib/roles';
+import { backend } from '../data';
+import Avatar from './Avatar';
 
 interface NavbarProps {
   profile: Profile;
@@ -13,17 +16,17 @@ const Navbar: React.FC<NavbarProps> = ({ profile }) => {
   const location = useLocation();
 
   const handleLogout = async () => {
-    if (isSupabaseConfigured()) {
-      await supabase.auth.signOut();
-    }
-    window.location.reload();
+    // App's auth listener clears the profile and routes back to /auth
+    await backend.auth.signOut();
   };
 
   const navItems = [
     { path: '/', icon: Home, label: 'Feed' },
     { path: '/create', icon: PlusSquare, label: 'Post' },
     { path: '/profile', icon: User, label: 'Profile' },
-    { path: '/admin', icon: ShieldCheck, label: 'Admin' },
+    ...(hasRole(profile, 'moderator')
+      ? [{ path: '/admin', icon: ShieldCheck, label: hasRole(profile, 'admin') ? 'Admin' : 'Moderate' }]
+      : []),
   ];
 
   return (
@@ -49,8 +52,11 @@ const Navbar: React.FC<NavbarProps> = ({ profile }) => {
           <div className="flex items-center gap-3 pl-6 border-l border-slate-200">
             <div className="flex items-center gap-1 bg-amber-50 text-amber-600 px-3 py-1 rounded-full text-sm font-semibold">
               <Star size={14} fill="currentColor" />
-              {profile.posts_remaining_to_unlock > 0 ? `${profile.posts_remaining_to_unlock} Reviews Left` : 'Unlocked'}
+              {profile.credit_balance} Credit{profile.credit_balance === 1 ? '' : 's'}
             </div>
+            <Link to="/settings" title="Settings" className={`rounded-full ring-2 transition-all ${location.pathname === '/settings' ? 'ring-indigo-500' : 'ring-transparent hover:ring-indigo-200'}`}>
+              <Avatar username={profile.username} url={profile.avatar_url} className="w-8 h-8 text-xs" />
+            </Link>
             <button onClick={handleLogout} className="text-slate-400 hover:text-red-500 transition-colors">
               <LogOut size={20} />
             </button>
@@ -81,9 +87,14 @@ const Navbar: React.FC<NavbarProps> = ({ profile }) => {
       {/* Mobile Top Header */}
       <div className="md:hidden sticky top-0 bg-white border-b border-slate-100 z-40 flex items-center justify-between px-4 py-3">
         <span className="text-xl font-bold text-indigo-600">LC</span>
-        <div className="flex items-center gap-1 bg-amber-50 text-amber-600 px-3 py-1 rounded-full text-xs font-semibold">
-          <Star size={12} fill="currentColor" />
-          {profile.posts_remaining_to_unlock > 0 ? `${profile.posts_remaining_to_unlock} to post` : 'Ready'}
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1 bg-amber-50 text-amber-600 px-3 py-1 rounded-full text-xs font-semibold">
+            <Star size={12} fill="currentColor" />
+            {canAffordPost(profile.credit_balance) ? `${profile.credit_balance} · Ready` : `${profile.credit_balance} credits`}
+          </div>
+          <Link to="/settings" title="Settings">
+            <Avatar username={profile.username} url={profile.avatar_url} className="w-8 h-8 text-xs" />
+          </Link>
         </div>
       </div>
     </>
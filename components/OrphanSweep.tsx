@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { isOrphanSweepDue, lastOrphanSweep, sweepOrphanedPhotos } from '../lib/uploads';
+import { Eraser, Loader2 } from 'lucide-react';
+
+// Deletes photos no post references. Runs by itself when an admin opens the
+// panel and the last sweep from this browser is over a day old.
+const OrphanSweep: React.FC = () => {
+  const [sweeping, setSweeping] = useState(false);
+  const [lastSweep, setLastSweep] = useState<Date | null>(lastOrphanSweep());
+  const [lastRemoved, setLastRemoved] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (isOrphanSweepDue()) runSweep();
+  }, []);
+
+  const runSweep = async () => {
+    setSweeping(true);
+    try {
+      setLastRemoved(await sweepOrphanedPhotos());
+      setLastSweep(lastOrphanSweep());
+    } catch (err) {
+      console.error("Orphan sweep error:", err);
+    } finally {
+      setSweeping(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] p-8 border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-black text-slate-800 uppercase tracking-tight flex items-center gap-2 mb-1">
+            <Eraser size={24} className="text-indigo-600" />
+            Storage Sweep
+          </h2>
+          <p className="text-xs text-slate-500 font-medium">
+            {lastSweep ? `Last run ${lastSweep.toLocaleString()}` : 'Never run from this browser'}
+            {lastRemoved !== null && ` · removed ${lastRemoved} orphaned file${lastRemoved === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        <button
+          onClick={runSweep}
+          disabled={sweeping}
+          className="px-4 py-3 bg-slate-50 hover:bg-slate-100 rounded-xl transition-all text-slate-600 text-xs font-black uppercase tracking-widest flex items-center gap-2 disabled:opacity-50"
+        >
+          {sweeping && <Loader2 size={14} className="animate-spin" />}
+          {sweeping ? 'Sweeping' : 'Sweep Now'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OrphanSweep;
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { decodeImage, drawScaled } from '../lib/images';
+import { applyRedactions, context2d, RedactionPoint, RedactionRegion, RedactionStyle } from '../lib/redaction';
+import { Brush, Check, Loader2, Square, Trash2, Undo2, X } from 'lucide-react';
+
+interface RedactionEditorProps {
+  file: File;
+  regions: RedactionRegion[];
+  onSave: (regions: RedactionRegion[]) => void;
+  onClose: () => void;
+}
+
+type Tool = 'box' | 'stroke';
+
+const PREVIEW_EDGE = 900;
+// Brush diameters, as fractions of the photo's longer edge
+const BRUSH_SIZES = { min: 0.02, max: 0.15, default: 0.06 };
+
+// Paint or box the parts of a photo to hide. The preview runs the same
+// redaction code as the upload, on a downsized copy that stays in the page.
+const RedactionEditor: React.FC<RedactionEditorProps> = ({ file, regions: initialRegions, onSave, onClose }) => {
+  const [regions, setRegions] = useState<RedactionRegion[]>(initialRegions);
+  const [draft, setDraft] = useState<RedactionRegion | null>(null);
+  const [tool, setTool] = useState<Tool>('box');
+  const [style, setStyle] = useState<RedactionStyle>('blur');
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES.default);
+  const [source, setSource] = useState<HTMLCanvasElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeImage(file)
+      .then(bitmap => {
+        const preview = drawScaled(bitmap, PREVIEW_EDGE);
+        bitmap.close();
+        if (!cancelled) setSource(preview);
+      })
+      .catch(err => setError(err.message));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+    canvas.width = source.width;
+    canvas.height = source.height;
+    context2d(canvas).drawImage(source, 0, 0);
+    applyRedactions(canvas, draft ? [...regions, draft] : regions);
+  }, [source, regions, draft]);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>): RedactionPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const startRegion = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setDraft(tool === 'box'
+      ? { shape: 'box', style, from: point, to: point }
+      : { shape: 'stroke', style, points: [point], size: brushSize });
+  };
+
+  const extendRegion = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = pointAt(e);
+    setDraft(draft.shape === 'box'
+      ? { ...draft, to: point }
+      : { ...draft, points: [...draft.points, point] });
+  };
+
+  const finishRegion = () => {
+    if (!draft) return;
+    // A click without a drag would leave an invisible box
+    const isEmptyBox = draft.shape === 'box' &&
+      (Math.abs(draft.to.x - draft.from.x) < 0.01 || Math.abs(draft.to.y - draft.from.y) < 0.01);
+    if (!isEmptyBox) setRegions([...regions, draft]);
+    setDraft(null);
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-4 py-2 rounded-xl text-xs font-black transition-all flex items-center gap-2 ${active ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-950/90 backdrop-blur-sm flex flex-col items-center justify-center p-4 gap-4">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <div className="flex gap-1 bg-slate-800 p-1 rounded-2xl">
+          <button type="button" onClick={() => setTool('box')} className={optionClass(tool === 'box')}><Square size={14} /> Box</button>
+          <button type="button" onClick={() => setTool('stroke')} className={optionClass(tool === 'stroke')}><Brush size={14} /> Paint</button>
+        </div>
+        <div className="flex gap-1 bg-slate-800 p-1 rounded-2xl">
+          <button type="button" onClick={() => setStyle('blur')} className={optionClass(style === 'blur')}>Blur</button>
+          <button type="button" onClick={() => setStyle('pixelate')} className={optionClass(style === 'pixelate')}>Pixelate</button>
+        </div>
+        {tool === 'stroke' && (
+          <input
+            type="range"
+            min={BRUSH_SIZES.min}
+            max={BRUSH_SIZES.max}
+            step={0.01}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-28 accent-indigo-500"
+            aria-label="Brush size"
+          />
+        )}
+        <div className="flex gap-1">
+          <button type="button" onClick={() => setRegions(regions.slice(0, -1))} disabled={regions.length === 0} className="p-3 bg-slate-800 text-slate-300 hover:text-white rounded-xl disabled:opacity-30" title="Undo">
+            <Undo2 size={16} />
+          </button>
+          <button type="button" onClick={() => setRegions([])} disabled={regions.length === 0} className="p-3 bg-slate-800 text-slate-300 hover:text-white rounded-xl disabled:opacity-30" title="Clear all">
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 w-full flex items-center justify-center">
+        {error ? (
+          <p className="text-red-300 font-bold text-sm">{error}</p>
+        ) : !source ? (
+          <Loader2 className="animate-spin text-indigo-400" size={40} />
+        ) : (
+          <canvas
+            ref={canvasRef}
+            onPointerDown={startRegion}
+            onPointerMove={extendRegion}
+            onPointerUp={finishRegion}
+            onPointerCancel={finishRegion}
+            className="max-w-full max-h-full rounded-2xl shadow-2xl cursor-crosshair touch-none"
+          />
+        )}
+      </div>
+
+      <p className="text-slate-400 text-xs font-medium text-center max-w-md">
+        Drag over faces, plates, house numbers or anything else you want hidden. The effect is burned into the uploaded photo; the original never leaves your device.
+      </p>
+      <div className="flex gap-3">
+        <button type="button" onClick={onClose} className="px-6 py-3 rounded-2xl font-black text-sm bg-slate-800 text-slate-300 hover:text-white flex items-center gap-2">
+          <X size={16} /> Cancel
+        </button>
+        <button type="button" onClick={() => onSave(regions)} disabled={!source} className="px-6 py-3 rounded-2xl font-black text-sm bg-indigo-600 text-white hover:bg-indigo-500 flex items-center gap-2 disabled:opacity-50">
+          <Check size={16} /> Apply {regions.length > 0 && `(${regions.length})`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionEditor;
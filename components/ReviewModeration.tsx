@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { backend } from '../data';
+import { Review } from '../types';
+import { Eye, EyeOff, Loader2, MessageSquare, RefreshCw } from 'lucide-react';
+
+const RECENT_LIMIT = 25;
+
+// Hiding a review removes it from the owner's feedback and from every score
+// aggregate; restoring it adds the scores back.
+const ReviewModeration: React.FC = () => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReviews();
+  }, []);
+
+  const fetchReviews = async () => {
+    setLoading(true);
+    try {
+      setReviews(await backend.reviews.listRecent(RECENT_LIMIT));
+    } catch (err) {
+      console.error("Moderation fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleHidden = async (review: Review) => {
+    setPendingId(review.id);
+    try {
+      await backend.reviews.setHidden(review.id, !review.is_hidden);
+      setReviews(reviews.map(r => r.id === review.id ? { ...r, is_hidden: !review.is_hidden } : r));
+    } catch (err) {
+      console.error(err);
+      alert("Moderation update failed.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-sm overflow-hidden">
+      <div className="p-8 border-b border-slate-50 flex items-center justify-between bg-slate-50/50">
+        <h2 className="text-xl font-black text-slate-800 flex items-center gap-2 uppercase tracking-tight">
+          <MessageSquare size={24} className="text-indigo-600" />
+          Review Moderation
+        </h2>
+        <button onClick={fetchReviews} className="p-3 bg-white hover:bg-slate-100 border border-slate-200 rounded-xl transition-all text-slate-500">
+          <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-20 flex justify-center">
+          <Loader2 className="animate-spin text-indigo-600" size={32} />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="p-20 text-center font-bold uppercase text-[10px] tracking-widest text-slate-300">No reviews yet</p>
+      ) : (
+        <div className="divide-y divide-slate-50">
+          {reviews.map(review => (
+            <div key={review.id} className={`p-6 flex items-start gap-6 transition-colors ${review.is_hidden ? 'bg-slate-50 opacity-60' : 'hover:bg-slate-50/50'}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-black text-slate-800 text-sm">{review.reviewer_id ? `@${review.profiles?.username || 'user'}` : 'Deleted account'}</span>
+                  <span className="text-[10px] text-slate-400 font-bold">
+                    {review.confidence_score === null
+                      ? `${review.comparisons.length} A/B vote${review.comparisons.length === 1 ? '' : 's'}`
+                      : `${review.confidence_score} / ${review.style_score} / ${review.approachability_score}`}
+                  </span>
+                  {review.is_hidden && <span className="text-[8px] bg-slate-200 text-slate-600 px-2 py-0.5 rounded font-black uppercase">Hidden</span>}
+                </div>
+                <p className="text-xs text-slate-500 line-clamp-2 italic">"{review.general_feedback}"</p>
+              </div>
+              <button
+                onClick={() => toggleHidden(review)}
+                disabled={pendingId === review.id}
+                title={review.is_hidden ? 'Restore review' : 'Hide review'}
+                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-50"
+              >
+                {pendingId === review.id
+                  ? <Loader2 size={20} className="animate-spin" />
+                  : review.is_hidden ? <Eye size={20} /> : <EyeOff size={20} />}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewModeration;
@@ -0,0 +1,216 @@
+import { Category, CreditTransaction, Post, PostAggregates, Profile, Review } from '../types';
+
+export type BackendKind = 'supabase' | 'memory';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+export interface SignUpInput {
+  email: string;
+  password: string;
+  username: string;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  getUser(): Promise<AuthUser | null>;
+  // Resolves to true when the account still has to be confirmed by email
+  signUp(input: SignUpInput): Promise<{ needsConfirmation: boolean }>;
+  signIn(email: string, password: string): Promise<void>;
+  signOut(): Promise<void>;
+  // Returns an unsubscribe function
+  onAuthStateChange(listener: (session: AuthSession | null) => void): () => void;
+}
+
+// The profile columns users may write, on their own profile only (admins on
+// any). Balances and aggregates are maintained by the database; role changes
+// are admin-only.
+export type ProfilePatch = Partial<Pick<Profile, 'username' | 'avatar_url' | 'interests' | 'review_anonymously' | 'role'>>;
+
+export interface ProfileRepository {
+  // Resolves to null when no row exists for the user yet
+  get(id: string): Promise<Profile | null>;
+  upsert(profile: ProfilePatch & { id: string }): Promise<Profile>;
+  update(id: string, patch: ProfilePatch): Promise<void>;
+  // Usernames are unique regardless of case
+  isUsernameTaken(username: string, exceptId: string): Promise<boolean>;
+}
+
+// The last post of a feed page; the next page starts right after it
+export type FeedCursor = Pick<Post, 'created_at' | 'id'>;
+
+// Narrowing shared by both feed orders
+export interface FeedFilter {
+  // Only posts overlapping at least one of these categories
+  categories?: Category[];
+  // true keeps posts that ask questions, false those that ask none
+  hasQuestions?: boolean;
+  // Only posts missing at most this many reviews
+  maxReviewsRemaining?: number;
+  // Left out, e.g. posts the viewer skipped
+  excludeIds?: string[];
+}
+
+// The feed is ordered by creation time, ties broken by id, so it can be
+// paged with a cursor instead of an offset
+export interface FeedQuery extends FeedFilter {
+  // Posts by this user, or already reviewed by them, are left out
+  viewerId: string;
+  // Newest first unless asked otherwise
+  order?: 'newest' | 'oldest';
+  limit: number;
+  after?: FeedCursor;
+}
+
+// A post with its score in the Recommended feed (see lib/feedRanking)
+export type RankedPost = Post & { rank_score: number };
+
+export type RankedFeedCursor = Pick<RankedPost, 'rank_score' | 'id'>;
+
+// Highest score first, ties broken by descending id. Scores are taken as of
+// rankedAt and newer posts are left out, so pass the same instant for every
+// page of one feed.
+export interface RankedFeedQuery extends FeedFilter {
+  // Posts by this user, or already reviewed by them, are left out
+  viewerId: string;
+  interests: Category[];
+  rankedAt: string;
+  limit: number;
+  after?: RankedFeedCursor;
+}
+
+// Posts created (or later updated) with status 'locked' join the owner's
+// queue and go live as soon as their credit balance covers the post's cost.
+// reviews_required must be within REVIEW_LIMITS. user_id must be the
+// signed-in user unless they are an admin.
+export type NewPost = Omit<Post, 'id' | 'created_at' | 'profiles' | 'credits_spent' | 'reviews_received' | keyof PostAggregates>;
+
+// What owners may change on their posts. The only status change open to
+// them is publishing a draft ('draft' -> 'locked'); archive and extend
+// cover the rest, and admins may set any status.
+export type PostPatch = Partial<Pick<NewPost, 'status' | 'categories' | 'questions' | 'image_urls' | 'thumbnail_urls'>>;
+
+export interface PostRepository {
+  listFeed(query: FeedQuery): Promise<Post[]>;
+  listRanked(query: RankedFeedQuery): Promise<RankedPost[]>;
+  listByUser(userId: string): Promise<Post[]>;
+  listAll(): Promise<Post[]>;
+  get(id: string): Promise<Post | null>;
+  create(post: NewPost): Promise<Post>;
+  update(id: string, patch: PostPatch): Promise<void>;
+  remove(id: string): Promise<void>;
+  // Owners and moderators: takes the post out of the feed for good
+  archive(id: string): Promise<void>;
+  // Owner only: asks for more reviews, paid for up front, and reopens the post
+  extend(id: string, extraReviews: number): Promise<void>;
+}
+
+// The reviewer is always the signed-in user
+export type ReviewSubmission = Omit<Review, 'id' | 'created_at' | 'profiles' | 'reviewer_id' | 'is_hidden' | 'is_helpful'>;
+
+// Why a submission was turned down, carried in DataError.hint
+export type ReviewRejection =
+  | 'not_authenticated'
+  | 'post_not_found'
+  | 'own_post'
+  | 'post_not_live'
+  | 'post_complete'
+  | 'already_reviewed'
+  | 'invalid_score'
+  | 'invalid_comparisons'
+  | 'answer_count'
+  | 'missing_feedback';
+
+export interface ReviewRepository {
+  // Visible reviews only; hidden ones are for moderators. Anonymous reviews
+  // come without reviewer_id or profile: the database never sends them.
+  listForPosts(postIds: string[]): Promise<Review[]>;
+  // Every review on the signed-in user's posts, newest first, hidden ones
+  // included; anonymous ones come without a reviewer as in listForPosts
+  listReceived(): Promise<Review[]>;
+  // Moderators: newest reviews across all posts, hidden ones and the authors
+  // of anonymous ones included. Anyone else gets only their own reviews.
+  listRecent(limit: number): Promise<Review[]>;
+  // Every review the user wrote, hidden and anonymous ones included; readable
+  // only by that user and moderators
+  listByReviewer(reviewerId: string): Promise<Review[]>;
+  hasReviewed(postId: string, reviewerId: string): Promise<boolean>;
+  // Validates, stores the review, bumps the post's counter and credits the
+  // reviewer with CREDIT_RULES.reviewReward as one atomic operation
+  submit(review: ReviewSubmission): Promise<Review>;
+  // Hiding or restoring a review re-runs score aggregation server-side
+  setHidden(id: string, hidden: boolean): Promise<void>;
+}
+
+export interface CreditRepository {
+  // Newest first
+  listLedger(userId: string): Promise<CreditTransaction[]>;
+  // Only the owner of the reviewed post may do this; pays the bonus once
+  markHelpful(reviewId: string): Promise<void>;
+  grant(userId: string, amount: number): Promise<void>;
+}
+
+export interface AccountRepository {
+  // Schedules the signed-in user's account for deletion once
+  // ACCOUNT_DELETION.graceDays have passed; cancelDeletion undoes it until then
+  requestDeletion(keepReviews: boolean): Promise<void>;
+  cancelDeletion(): Promise<void>;
+  // Admin only: accounts whose grace period has run out
+  listDueDeletions(): Promise<string[]>;
+  // The owner or an admin, once the grace period is over: deletes the user
+  // and every row that belongs to them. Photos are left to the caller, who
+  // lists them with photos.listForAccount beforehand.
+  purge(userId: string): Promise<void>;
+}
+
+export interface UploadOptions {
+  onProgress?: (loadedBytes: number, totalBytes: number) => void;
+  // Aborting rejects the upload with a DataError coded UPLOAD_ABORTED
+  signal?: AbortSignal;
+}
+
+export const UPLOAD_ABORTED = 'aborted';
+
+export interface PhotoStorage {
+  // Uploads to the `photos` bucket and resolves to the public URL. Failed
+  // requests reject with the HTTP status as the code, or no code when the
+  // network dropped.
+  upload(path: string, file: Blob, options?: UploadOptions): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+  // Storage path behind a URL returned by `upload`, or null for foreign URLs
+  pathOf(publicUrl: string): string | null;
+  // Rejects when the `photos` bucket is missing or cannot be listed
+  probeBucket(): Promise<void>;
+  // Admin only: paths of objects older than a day that no post references
+  listOrphans(): Promise<string[]>;
+  // The owner or an admin: paths under <user id>/ and avatars/<user id>/
+  listForAccount(userId: string): Promise<string[]>;
+}
+
+export interface SchemaRepository {
+  // Versions from the schema_migrations table; empty before the first migration run
+  listAppliedMigrations(): Promise<string[]>;
+  // Rejects with the database error when the table or one of the columns is missing
+  probeColumns(table: string, columns: string[]): Promise<void>;
+  // Calls the function read-only, so it cannot change any data. Rejections
+  // raised by the function body still prove that it exists.
+  hasFunction(name: string, args: Record<string, unknown>): Promise<boolean>;
+}
+
+export interface DataBackend {
+  kind: BackendKind;
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  posts: PostRepository;
+  reviews: ReviewRepository;
+  credits: CreditRepository;
+  accounts: AccountRepository;
+  photos: PhotoStorage;
+  schema: SchemaRepository;
+}
@@ -0,0 +1,20 @@
+// Every repository rejects with a DataError so pages can keep inspecting
+// `code` (Postgres / PostgREST error codes) and `message` the same way
+// regardless of which backend is active. Database functions that reject on
+// purpose put a machine-readable reason in `hint`.
+export class DataError extends Error {
+  code?: string;
+  hint?: string;
+
+  constructor(message: string, code?: string, hint?: string) {
+    super(message);
+    this.name = 'DataError';
+    this.code = code;
+    this.hint = hint;
+  }
+}
+
+export const toDataError = (err: any): DataError => {
+  if (err instanceof DataError) return err;
+  return new DataError(err?.message || 'Unknown data error', err?.code, err?.hint || undefined);
+};
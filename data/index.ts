@@ -0,0 +1,21 @@
+import { supabase } from '../supabaseClient';
+import { BackendKind, DataBackend } from './backend';
+import { createMemoryBackend } from './memoryBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+
+export * from './backend';
+export { DataError } from './errors';
+export { DEMO_CREDENTIALS } from './memoryBackend';
+export { MIGRATIONS, pendingMigrations, buildMigrationScript } from './migrations';
+export type { Migration } from './migrations';
+
+// `?backend=memory` in the page URL overrides the build-time DATA_BACKEND
+// setting, which makes it easy to open an offline demo of any deployment.
+const resolveBackendKind = (): BackendKind => {
+  const requested = new URLSearchParams(window.location.search).get('backend') || process.env.DATA_BACKEND;
+  return requested === 'memory' ? 'memory' : 'supabase';
+};
+
+export const backend: DataBackend = resolveBackendKind() === 'memory'
+  ? createMemoryBackend()
+  : createSupabaseBackend(supabase);
@@ -0,0 +1,352 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACCOUNT_DELETION, Post, REVIEW_LIMITS } from '../types';
+import { postCost } from '../lib/credits';
+import { DataBackend, NewPost, ReviewSubmission } from './backend';
+import { createMemoryBackend, DEMO_CREDENTIALS } from './memoryBackend';
+
+let backend: DataBackend;
+
+const signUp = async (username: string) => {
+  const email = `${username}@example.com`;
+  await backend.auth.signUp({ email, password: 'secret123', username });
+  const user = await backend.auth.getUser();
+  await backend.profiles.upsert({ id: user!.id, username, interests: ['Social'] });
+  return { id: user!.id, email };
+};
+
+const signIn = (email: string) => backend.auth.signIn(email, 'secret123');
+
+const newPost = (userId: string, patch: Partial<NewPost> = {}): NewPost => ({
+  user_id: userId,
+  post_type: 'rating',
+  categories: ['Social'],
+  image_urls: ['https://example.com/1.jpg'],
+  thumbnail_urls: [],
+  questions: [],
+  status: 'locked',
+  reviews_required: REVIEW_LIMITS.default,
+  ...patch
+});
+
+const ratingReview = (post: Post, patch: Partial<ReviewSubmission> = {}): ReviewSubmission => ({
+  post_id: post.id,
+  confidence_score: 7,
+  style_score: 6,
+  approachability_score: 8,
+  image_scores: [],
+  comparisons: [],
+  answers: post.questions.map(() => 'Yes'),
+  general_feedback: 'Nice light',
+  is_anonymous: true,
+  ...patch
+});
+
+// Live posts owned by the demo admin, which skip the queue
+const seedLivePosts = async (count: number, patch: Partial<NewPost> = {}) => {
+  await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+  const demo = await backend.auth.getUser();
+  const posts: Post[] = [];
+  for (let i = 0; i < count; i++) posts.push(await backend.posts.create(newPost(demo!.id, { status: 'live', ...patch })));
+  return posts;
+};
+
+beforeEach(() => {
+  backend = createMemoryBackend();
+});
+
+describe('reviews and unlocking', () => {
+  it('releases a queued post once its owner has reviewed enough posts', async () => {
+    const targets = await seedLivePosts(REVIEW_LIMITS.default);
+    const owner = await signUp('owner');
+    const queued = await backend.posts.create(newPost(owner.id));
+    expect((await backend.posts.get(queued.id))?.status).toBe('locked');
+
+    for (const target of targets) await backend.reviews.submit(ratingReview(target));
+
+    const released = await backend.posts.get(queued.id);
+    expect(released?.status).toBe('live');
+    expect(released?.credits_spent).toBe(postCost(REVIEW_LIMITS.default));
+    expect((await backend.profiles.get(owner.id))?.credit_balance).toBe(0);
+    expect((await backend.credits.listLedger(owner.id)).map(e => e.kind))
+      .toEqual(['post_spent', 'review_earned', 'review_earned', 'review_earned']);
+  });
+
+  it('completes a post once it has every review it asked for', async () => {
+    const [target] = await seedLivePosts(1);
+    for (let i = 0; i < REVIEW_LIMITS.default; i++) {
+      await signUp(`reviewer${i}`);
+      await backend.reviews.submit(ratingReview(target));
+    }
+
+    await signUp('late');
+    await expect(backend.reviews.submit(ratingReview(target))).rejects.toMatchObject({ hint: 'post_complete' });
+    // Completed posts are visible to their owner only
+    expect(await backend.posts.get(target.id)).toBeNull();
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    const completed = await backend.posts.get(target.id);
+    expect(completed?.status).toBe('completed');
+    expect(completed?.reviews_received).toBe(REVIEW_LIMITS.default);
+  });
+
+  it('keeps running score sums for the post and its owner', async () => {
+    const [target] = await seedLivePosts(1);
+    await signUp('first');
+    await backend.reviews.submit(ratingReview(target, { confidence_score: 4 }));
+    await signUp('second');
+    await backend.reviews.submit(ratingReview(target, { confidence_score: 8 }));
+
+    const post = await backend.posts.get(target.id);
+    expect(post?.score_count).toBe(2);
+    expect(post?.avg_confidence).toBe(6);
+    expect(post?.confidence_sq_sum).toBe(4 ** 2 + 8 ** 2);
+    expect((await backend.profiles.get(target.user_id))?.review_count).toBe(2);
+  });
+
+  it('rejects reviews the way submit_review does', async () => {
+    const [target] = await seedLivePosts(1, { questions: ['Smile or not?'] });
+    await expect(backend.reviews.submit(ratingReview(target))).rejects.toMatchObject({ hint: 'own_post' });
+
+    await signUp('reviewer');
+    await expect(backend.reviews.submit(ratingReview(target, { answers: [] }))).rejects.toMatchObject({ hint: 'answer_count' });
+    await expect(backend.reviews.submit(ratingReview(target, { style_score: 11 }))).rejects.toMatchObject({ hint: 'invalid_score' });
+    await expect(backend.reviews.submit(ratingReview(target, { general_feedback: '  ' }))).rejects.toMatchObject({ hint: 'missing_feedback' });
+    await backend.reviews.submit(ratingReview(target));
+    await expect(backend.reviews.submit(ratingReview(target))).rejects.toMatchObject({ hint: 'already_reviewed' });
+  });
+
+  it('accepts per-photo scores for some of the photos only', async () => {
+    const [target] = await seedLivePosts(1, { image_urls: ['https://example.com/1.jpg', 'https://example.com/2.jpg'] });
+    await signUp('reviewer');
+    const review = await backend.reviews.submit(ratingReview(target, {
+      image_scores: [{ image_index: 1, confidence_score: 9, style_score: 9, approachability_score: 9 }]
+    }));
+    expect(review.image_scores.map(s => s.image_index)).toEqual([1]);
+  });
+
+  it('only takes reviews on live posts', async () => {
+    const owner = await signUp('owner');
+    const draft = await backend.posts.create(newPost(owner.id, { status: 'draft' }));
+    await signUp('reviewer');
+    await expect(backend.reviews.submit(ratingReview(draft))).rejects.toMatchObject({ hint: 'post_not_live' });
+  });
+});
+
+describe('received reviews', () => {
+  it('lists hidden reviews on the owner\'s posts without naming anonymous reviewers', async () => {
+    const [target] = await seedLivePosts(1);
+    await signUp('named');
+    const named = await backend.reviews.submit(ratingReview(target, { is_anonymous: false }));
+    await signUp('hidden');
+    const anonymous = await backend.reviews.submit(ratingReview(target));
+
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    await backend.reviews.setHidden(named.id, true);
+    expect((await backend.reviews.listForPosts([target.id])).map(r => r.id)).toEqual([anonymous.id]);
+
+    const received = await backend.reviews.listReceived();
+    expect(received.map(r => [r.id, r.is_hidden]).sort()).toEqual([[named.id, true], [anonymous.id, false]].sort());
+    expect(received.find(r => r.id === anonymous.id)?.reviewer_id).toBeNull();
+    expect(received.find(r => r.id === named.id)?.profiles?.username).toBe('named');
+  });
+
+  it('lists nothing from other users\' posts', async () => {
+    const [target] = await seedLivePosts(1);
+    await signUp('reviewer');
+    await backend.reviews.submit(ratingReview(target));
+    expect(await backend.reviews.listReceived()).toEqual([]);
+  });
+});
+
+describe('credits', () => {
+  it('pays a bonus when the owner marks a review helpful, once', async () => {
+    const [target] = await seedLivePosts(1);
+    const reviewer = await signUp('reviewer');
+    const review = await backend.reviews.submit(ratingReview(target));
+
+    await expect(backend.credits.markHelpful(review.id)).rejects.toMatchObject({ code: '42501' });
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    await backend.credits.markHelpful(review.id);
+    await backend.credits.markHelpful(review.id);
+
+    expect((await backend.profiles.get(reviewer.id))?.credit_balance).toBe(2);
+    expect((await backend.credits.listLedger(reviewer.id)).map(e => e.kind)).toEqual(['helpful_bonus', 'review_earned']);
+  });
+
+  it('lets only admins grant credits', async () => {
+    const user = await signUp('user');
+    await expect(backend.credits.grant(user.id, 5)).rejects.toMatchObject({ code: '42501' });
+
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    await backend.credits.grant(user.id, 5);
+    expect((await backend.profiles.get(user.id))?.credit_balance).toBe(5);
+  });
+
+  it('charges credits for extending a post', async () => {
+    const owner = await signUp('owner');
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    await backend.credits.grant(owner.id, postCost(REVIEW_LIMITS.default) + 2);
+    await signIn(owner.email);
+    const post = await backend.posts.create(newPost(owner.id));
+
+    await expect(backend.posts.extend(post.id, 3)).rejects.toMatchObject({ code: '55000' });
+    await backend.posts.extend(post.id, 2);
+
+    const extended = await backend.posts.get(post.id);
+    expect(extended?.reviews_required).toBe(REVIEW_LIMITS.default + 2);
+    expect(extended?.credits_spent).toBe(postCost(REVIEW_LIMITS.default + 2));
+    expect((await backend.profiles.get(owner.id))?.credit_balance).toBe(0);
+  });
+});
+
+describe('feeds', () => {
+  it('hides own, reviewed and excluded posts from the feed', async () => {
+    const [kept, reviewed, skipped, alsoKept] = await seedLivePosts(4);
+    const viewer = await signUp('viewer');
+    await backend.posts.create(newPost(viewer.id, { status: 'draft' }));
+    await backend.reviews.submit(ratingReview(reviewed));
+
+    const feed = await backend.posts.listFeed({ viewerId: viewer.id, limit: 10, excludeIds: [skipped.id] });
+    expect(feed.map(p => p.id).sort()).toEqual([kept.id, alsoKept.id].sort());
+  });
+
+  it('ranks posts missing the most reviews first', async () => {
+    const [full, fresh] = await seedLivePosts(2);
+    await signUp('reviewer');
+    await backend.reviews.submit(ratingReview(full));
+    const viewer = await signUp('viewer');
+
+    const ranked = await backend.posts.listRanked({
+      viewerId: viewer.id,
+      interests: [],
+      rankedAt: new Date().toISOString(),
+      limit: 10
+    });
+    expect(ranked.map(p => p.id)).toEqual([fresh.id, full.id]);
+    expect(ranked[0].rank_score).toBeGreaterThan(ranked[1].rank_score);
+  });
+
+  it('shows posts that are not live to their owner only', async () => {
+    const owner = await signUp('owner');
+    const draft = await backend.posts.create(newPost(owner.id, { status: 'draft' }));
+    expect(await backend.posts.get(draft.id)).not.toBeNull();
+
+    await signUp('other');
+    expect(await backend.posts.get(draft.id)).toBeNull();
+    expect(await backend.posts.listByUser(owner.id)).toEqual([]);
+  });
+});
+
+describe('account deletion', () => {
+  const GRACE_MS = ACCOUNT_DELETION.graceDays * 24 * 60 * 60 * 1000;
+
+  // Requests deletion as the user, then moves the clock past the grace period
+  const deleteAfterGrace = async (email: string, keepReviews: boolean) => {
+    await signIn(email);
+    await backend.accounts.requestDeletion(keepReviews);
+    vi.setSystemTime(Date.now() + GRACE_MS);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('purges only once the grace period has passed', async () => {
+    const user = await signUp('leaving');
+    await backend.accounts.requestDeletion(false);
+    await expect(backend.accounts.purge(user.id)).rejects.toMatchObject({ code: '55000' });
+
+    vi.setSystemTime(Date.now() + GRACE_MS - 1);
+    await expect(backend.accounts.purge(user.id)).rejects.toMatchObject({ code: '55000' });
+    vi.setSystemTime(Date.now() + 1);
+    await backend.accounts.purge(user.id);
+    expect(await backend.profiles.get(user.id)).toBeNull();
+  });
+
+  it('never purges an account whose deletion was cancelled', async () => {
+    const user = await signUp('staying');
+    await backend.accounts.requestDeletion(false);
+    await backend.accounts.cancelDeletion();
+    vi.setSystemTime(Date.now() + GRACE_MS);
+
+    await expect(backend.accounts.purge(user.id)).rejects.toMatchObject({ code: '55000' });
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    expect(await backend.accounts.listDueDeletions()).toEqual([]);
+  });
+
+  it('lists due accounts to admins only, oldest request first', async () => {
+    const first = await signUp('first');
+    await backend.accounts.requestDeletion(false);
+    vi.setSystemTime(Date.now() + 1000);
+    const second = await signUp('second');
+    await backend.accounts.requestDeletion(true);
+    await signUp('pending');
+    vi.setSystemTime(Date.now() + GRACE_MS - 500);
+    await backend.accounts.requestDeletion(false);
+
+    await expect(backend.accounts.listDueDeletions()).rejects.toMatchObject({ code: '42501' });
+    await expect(backend.accounts.purge(first.id)).rejects.toMatchObject({ code: '42501' });
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    expect(await backend.accounts.listDueDeletions()).toEqual([first.id]);
+    vi.setSystemTime(Date.now() + 1000);
+    expect(await backend.accounts.listDueDeletions()).toEqual([first.id, second.id]);
+  });
+
+  it('keeps reviews as anonymous ones when asked to', async () => {
+    const [target] = await seedLivePosts(1);
+    const reviewer = await signUp('reviewer');
+    const review = await backend.reviews.submit(ratingReview(target, { is_anonymous: false }));
+
+    await deleteAfterGrace(reviewer.email, true);
+    await backend.accounts.purge(reviewer.id);
+
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    const [kept] = await backend.reviews.listForPosts([target.id]);
+    expect(kept).toMatchObject({ id: review.id, is_anonymous: true, reviewer_id: null });
+    const post = await backend.posts.get(target.id);
+    expect(post?.reviews_received).toBe(1);
+    expect(post?.score_count).toBe(1);
+  });
+
+  it('otherwise deletes reviews, their scores and reopens completed posts', async () => {
+    const [target] = await seedLivePosts(1, { reviews_required: REVIEW_LIMITS.min });
+    const reviewers = [];
+    for (let i = 0; i < REVIEW_LIMITS.min; i++) {
+      reviewers.push(await signUp(`reviewer${i}`));
+      await backend.reviews.submit(ratingReview(target, { confidence_score: i === 0 ? 2 : 8 }));
+    }
+    const [leaving] = reviewers;
+
+    await deleteAfterGrace(leaving.email, false);
+    await backend.accounts.purge(leaving.id);
+
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    const post = await backend.posts.get(target.id);
+    expect(post?.status).toBe('live');
+    expect(post?.reviews_received).toBe(REVIEW_LIMITS.min - 1);
+    expect(post?.score_count).toBe(REVIEW_LIMITS.min - 1);
+    expect(post?.avg_confidence).toBe(8);
+    expect(await backend.reviews.listForPosts([target.id])).toHaveLength(REVIEW_LIMITS.min - 1);
+  });
+
+  it('removes the user\'s own posts, the reviews on them and their ledger', async () => {
+    const targets = await seedLivePosts(REVIEW_LIMITS.default);
+    const owner = await signUp('owner');
+    const post = await backend.posts.create(newPost(owner.id));
+    for (const target of targets) await backend.reviews.submit(ratingReview(target));
+    await signUp('reviewer');
+    await backend.reviews.submit(ratingReview(post));
+
+    await deleteAfterGrace(owner.email, true);
+    await backend.accounts.purge(owner.id);
+
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    expect(await backend.posts.get(post.id)).toBeNull();
+    expect(await backend.reviews.listForPosts([post.id])).toEqual([]);
+    expect(await backend.credits.listLedger(owner.id)).toEqual([]);
+    await expect(backend.auth.signIn(owner.email, 'secret123')).rejects.toThrow();
+  });
+});
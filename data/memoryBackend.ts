@@ -0,0 +1,685 @@
+import { ACCOUNT_DELETION, CREDIT_RULES, CreditTransaction, Post, PostAggregates, Profile, RATING_METRICS, REVIEW_LIMITS, Review, ScoreSums, UserRole } from '../types';
+import { postCost } from '../lib/credits';
+import { hasRole } from '../lib/roles';
+import { feedScore } from '../lib/feedRanking';
+import { AuthSession, DataBackend, FeedCursor, FeedFilter, RankedFeedCursor, ReviewRejection, ReviewSubmission, UPLOAD_ABORTED } from './backend';
+import { DataError } from './errors';
+import { MIGRATIONS } from './migrations';
+
+interface MemoryUser {
+  id: string;
+  email: string;
+  password: string;
+}
+
+interface MemoryState {
+  users: MemoryUser[];
+  profiles: Map<string, Profile>;
+  posts: Map<string, Post>;
+  reviews: Map<string, Review>;
+  ledger: CreditTransaction[];
+  photos: Map<string, { url: string; uploadedAt: number }>;
+  session: AuthSession | null;
+}
+
+// Matches list_orphaned_photos: younger objects may belong to a post still being created
+const ORPHAN_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+// Matches account_deletion_grace()
+const DELETION_GRACE_MS = ACCOUNT_DELETION.graceDays * 24 * 60 * 60 * 1000;
+
+export const DEMO_CREDENTIALS = { email: 'demo@lenscritique.app', password: 'demo1234' };
+
+const EMPTY_SUMS: ScoreSums = {
+  confidence_sum: 0,
+  confidence_sq_sum: 0,
+  style_sum: 0,
+  style_sq_sum: 0,
+  approachability_sum: 0,
+  approachability_sq_sum: 0
+};
+
+// Mirrors the column defaults of the `profiles` table
+const PROFILE_DEFAULTS: Omit<Profile, 'id' | 'username'> = {
+  ...EMPTY_SUMS,
+  avatar_url: undefined,
+  interests: [],
+  total_confidence: 0,
+  total_style: 0,
+  total_approachability: 0,
+  review_count: 0,
+  credit_balance: 0,
+  role: 'user',
+  review_anonymously: true,
+  deletion_requested_at: null,
+  keep_reviews_on_deletion: true
+};
+
+const POST_AGGREGATE_DEFAULTS: PostAggregates = {
+  ...EMPTY_SUMS,
+  score_count: 0,
+  avg_confidence: 0,
+  avg_style: 0,
+  avg_approachability: 0
+};
+
+// Adds (direction = 1) or removes (direction = -1) one set of scores,
+// like `apply_review_scores` does in the database
+const shiftSums = (target: ScoreSums, scores: ScoreSums, direction: number) => {
+  for (const { key } of RATING_METRICS) {
+    target[`${key}_sum`] += direction * scores[`${key}_sum`];
+    target[`${key}_sq_sum`] += direction * scores[`${key}_sq_sum`];
+  }
+};
+
+const reviewSums = (review: Review): ScoreSums => ({
+  confidence_sum: review.confidence_score ?? 0,
+  confidence_sq_sum: (review.confidence_score ?? 0) ** 2,
+  style_sum: review.style_score ?? 0,
+  style_sq_sum: (review.style_score ?? 0) ** 2,
+  approachability_sum: review.approachability_score ?? 0,
+  approachability_sq_sum: (review.approachability_score ?? 0) ** 2
+});
+
+const mean = (sum: number, count: number) => count > 0 ? sum / count : 0;
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Same messages, codes and hints as `submit_review`
+const reject = (message: string, code: string, hint: ReviewRejection): never => {
+  throw new DataError(message, code, hint);
+};
+
+const isScore = (value: number | null) =>
+  value !== null && Number.isInteger(value) && value >= 1 && value <= 10;
+
+const isImageIndex = (value: number, imageCount: number) =>
+  Number.isInteger(value) && value >= 0 && value < imageCount;
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+// Keyset order of the feed: newest first, then descending id
+const byFeedOrder = (a: FeedCursor, b: FeedCursor) =>
+  byNewest(a, b) || b.id.localeCompare(a.id);
+
+const matchesFeedFilter = (post: Post, { categories, hasQuestions, maxReviewsRemaining, excludeIds }: FeedFilter) =>
+  (!categories || categories.length === 0 || post.categories.some(c => categories.includes(c))) &&
+  (hasQuestions === undefined || ((post.questions || []).length > 0) === hasQuestions) &&
+  (maxReviewsRemaining === undefined || post.reviews_required - post.reviews_received <= maxReviewsRemaining) &&
+  !excludeIds?.includes(post.id);
+
+// Keyset order of the ranked feed: highest score first, then descending id
+const byRankOrder = (a: RankedFeedCursor, b: RankedFeedCursor) =>
+  b.rank_score - a.rank_score || b.id.localeCompare(a.id);
+
+const seedState = (): MemoryState => {
+  const demoId = crypto.randomUUID();
+  return {
+    users: [{ id: demoId, ...DEMO_CREDENTIALS }],
+    profiles: new Map([[demoId, {
+      ...PROFILE_DEFAULTS,
+      id: demoId,
+      username: 'demo',
+      // The offline demo is for exploring everything, the Admin Panel included
+      role: 'admin',
+      interests: ['Social', 'Fashion']
+    }]]),
+    posts: new Map(),
+    reviews: new Map(),
+    ledger: [],
+    photos: new Map(),
+    session: null
+  };
+};
+
+// A complete, process-local implementation of the data layer. Nothing is
+// persisted: reloading the page starts over from the seeded demo account.
+export const createMemoryBackend = (): DataBackend => {
+  const state = seedState();
+  const listeners = new Set<(session: AuthSession | null) => void>();
+
+  const setSession = (session: AuthSession | null) => {
+    state.session = session;
+    // Supabase notifies listeners asynchronously; keep the same ordering
+    setTimeout(() => listeners.forEach(listener => listener(clone(session))), 0);
+  };
+
+  const joinProfile = (userId: string) => {
+    const profile = state.profiles.get(userId);
+    return profile ? { username: profile.username, avatar_url: profile.avatar_url } : undefined;
+  };
+
+  const isUsernameTaken = (username: string, exceptId: string) =>
+    [...state.profiles.values()].some(p => p.id !== exceptId && p.username.toLowerCase() === username.toLowerCase());
+
+  // Mirrors the unique constraint and guard_profile_username
+  const guardUsername = (username: string, id: string) => {
+    if (isUsernameTaken(username, id)) throw new DataError(`Username ${username} is already taken`, '23505');
+  };
+
+  const withPostJoin = (post: Post): Post => ({ ...clone(post), profiles: joinProfile(post.user_id) });
+  const withReviewJoin = (review: Review): Review => ({ ...clone(review), profiles: joinProfile(review.reviewer_id) });
+  // Mirrors the public_reviews view: anonymous reviews lose their reviewer
+  const asPublicReview = (review: Review): Review => review.is_anonymous
+    ? { ...clone(review), reviewer_id: null, profiles: undefined }
+    : withReviewJoin(review);
+
+  const refreshMeans = (post: Post | undefined, profile: Profile | undefined) => {
+    if (post) {
+      post.avg_confidence = mean(post.confidence_sum, post.score_count);
+      post.avg_style = mean(post.style_sum, post.score_count);
+      post.avg_approachability = mean(post.approachability_sum, post.score_count);
+    }
+    if (profile) {
+      profile.total_confidence = mean(profile.confidence_sum, profile.review_count);
+      profile.total_style = mean(profile.style_sum, profile.review_count);
+      profile.total_approachability = mean(profile.approachability_sum, profile.review_count);
+    }
+  };
+
+  const applyReviewScores = (review: Review, direction: number) => {
+    // Comparison reviews carry pairwise votes instead of scores
+    if (review.is_hidden || review.confidence_score === null) return;
+    const post = state.posts.get(review.post_id);
+    if (!post) return;
+    const owner = state.profiles.get(post.user_id);
+
+    post.score_count += direction;
+    shiftSums(post, reviewSums(review), direction);
+    if (owner) {
+      owner.review_count += direction;
+      shiftSums(owner, reviewSums(review), direction);
+    }
+    refreshMeans(post, owner);
+  };
+
+  // Oldest queued posts first, while the balance covers the cost
+  const releaseQueuedPosts = (userId: string) => {
+    const queued = [...state.posts.values()]
+      .filter(p => p.user_id === userId && p.status === 'locked' && p.credits_spent === 0)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const post of queued) {
+      const cost = postCost(post.reviews_required);
+      if ((state.profiles.get(userId)?.credit_balance ?? 0) < cost) break;
+      addLedgerEntry({ user_id: userId, amount: -cost, kind: 'post_spent', post_id: post.id });
+      post.status = 'live';
+      post.credits_spent = cost;
+    }
+  };
+
+  // Mirrors the credit_ledger_apply trigger
+  const addLedgerEntry = (entry: Pick<CreditTransaction, 'user_id' | 'amount' | 'kind'> & Partial<CreditTransaction>) => {
+    state.ledger.push({
+      post_id: null,
+      review_id: null,
+      ...entry,
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString()
+    });
+    const profile = state.profiles.get(entry.user_id);
+    if (profile) profile.credit_balance += entry.amount;
+    if (entry.amount > 0) releaseQueuedPosts(entry.user_id);
+  };
+
+  const requirePost = (id: string): Post => {
+    const post = state.posts.get(id);
+    if (!post) throw new DataError(`Post ${id} not found`, 'PGRST116');
+    return post;
+  };
+
+  // Row-level security and role checks, as the database policies apply them
+  const sessionHasRole = (role: UserRole) =>
+    hasRole(state.session ? state.profiles.get(state.session.user.id) : undefined, role);
+
+  const requireRole = (role: UserRole, message: string) => {
+    if (!sessionHasRole(role)) throw new DataError(message, '42501');
+  };
+
+  const ownsPost = (post: Post) => post.user_id === state.session?.user.id;
+
+  // Live posts are public; the rest only reach their owner and moderators
+  const canViewPost = (post: Post) => post.status === 'live' || ownsPost(post) || sessionHasRole('moderator');
+
+  // Mirrors owns_photo_path: users write under their own id, avatars
+  // under avatars/<id>/
+  const ownsPhotoPath = (path: string) => {
+    const userId = state.session?.user.id;
+    if (!userId) return false;
+    const [first, second] = path.split('/');
+    return first === userId || (first === 'avatars' && second === userId);
+  };
+
+  const isDeletionDue = (profile: Profile) =>
+    !!profile.deletion_requested_at && Date.now() - new Date(profile.deletion_requested_at).getTime() >= DELETION_GRACE_MS;
+
+  const requireAccountAccess = (userId: string, message: string) => {
+    if (userId !== state.session?.user.id) requireRole('admin', message);
+  };
+
+  // Mirrors purge_account and the cascades of deleting the auth user
+  const purgeAccount = (profile: Profile) => {
+    for (const review of [...state.reviews.values()]) {
+      if (review.reviewer_id !== profile.id) continue;
+      if (profile.keep_reviews_on_deletion) {
+        review.is_anonymous = true;
+        review.reviewer_id = null;
+        continue;
+      }
+      const post = state.posts.get(review.post_id);
+      if (post && post.user_id !== profile.id) {
+        applyReviewScores(review, -1);
+        post.reviews_received = Math.max(post.reviews_received - 1, 0);
+        if (post.status === 'completed') post.status = 'live';
+      }
+      state.reviews.delete(review.id);
+    }
+    for (const post of [...state.posts.values()]) {
+      if (post.user_id !== profile.id) continue;
+      state.posts.delete(post.id);
+      for (const review of [...state.reviews.values()]) {
+        if (review.post_id === post.id) state.reviews.delete(review.id);
+      }
+    }
+    state.ledger = state.ledger
+      .filter(e => e.user_id !== profile.id)
+      .map(e => ({
+        ...e,
+        post_id: e.post_id && state.posts.has(e.post_id) ? e.post_id : null,
+        review_id: e.review_id && state.reviews.has(e.review_id) ? e.review_id : null
+      }));
+    state.profiles.delete(profile.id);
+    state.users = state.users.filter(u => u.id !== profile.id);
+  };
+
+  const hasReviewed = (postId: string, reviewerId: string) =>
+    [...state.reviews.values()].some(r => r.post_id === postId && r.reviewer_id === reviewerId);
+
+  const validateSubmission = (input: ReviewSubmission, post: Post, reviewerId: string) => {
+    if (post.user_id === reviewerId) reject('You cannot review your own post', '23514', 'own_post');
+    if (post.status === 'completed' || post.reviews_received >= post.reviews_required) {
+      reject('This post already has all the reviews it asked for', '55000', 'post_complete');
+    }
+    if (post.status !== 'live') reject('This post is not open for reviews', '55000', 'post_not_live');
+    if (hasReviewed(post.id, reviewerId)) reject('You have already reviewed this post', '23505', 'already_reviewed');
+
+    const imageCount = post.image_urls.length;
+    if (post.post_type === 'comparison') {
+      const validVotes = input.comparisons.every(v =>
+        isImageIndex(v.winner_index, imageCount) && isImageIndex(v.loser_index, imageCount) && v.winner_index !== v.loser_index
+      );
+      if (input.comparisons.length !== imageCount * (imageCount - 1) / 2 || !validVotes) {
+        reject('Pick the better photo in every pair', '22023', 'invalid_comparisons');
+      }
+    } else {
+      if (![input.confidence_score, input.style_score, input.approachability_score].every(isScore)) {
+        reject('Scores must be whole numbers from 1 to 10', '22023', 'invalid_score');
+      }
+      const validImageScores = input.image_scores.every(s =>
+        isImageIndex(s.image_index, imageCount) &&
+        [s.confidence_score, s.style_score, s.approachability_score].every(isScore)
+      );
+      if (!validImageScores) reject('Per-photo scores must be whole numbers from 1 to 10', '22023', 'invalid_score');
+    }
+
+    if (input.answers.length !== post.questions.length) {
+      reject('Answer every question the poster asked', '22023', 'answer_count');
+    }
+    if (!input.general_feedback.trim()) reject('General feedback is required', '22023', 'missing_feedback');
+  };
+
+  return {
+    kind: 'memory',
+
+    auth: {
+      getSession: async () => clone(state.session),
+      getUser: async () => clone(state.session?.user ?? null),
+      signUp: async ({ email, password }) => {
+        if (state.users.some(u => u.email === email)) {
+          throw new DataError('User already registered');
+        }
+        const user = { id: crypto.randomUUID(), email, password };
+        state.users.push(user);
+        setSession({ user: { id: user.id, email } });
+        return { needsConfirmation: false };
+      },
+      signIn: async (email, password) => {
+        const user = state.users.find(u => u.email === email && u.password === password);
+        if (!user) throw new DataError('Invalid login credentials');
+        setSession({ user: { id: user.id, email: user.email } });
+      },
+      signOut: async () => {
+        setSession(null);
+      },
+      onAuthStateChange: (listener) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+      }
+    },
+
+    profiles: {
+      get: async (id) => {
+        const profile = state.profiles.get(id);
+        return profile ? clone(profile) : null;
+      },
+      upsert: async (profile) => {
+        if (profile.id !== state.session?.user.id) requireRole('admin', 'new row violates row-level security policy for table "profiles"');
+        const existing = state.profiles.get(profile.id);
+        if (profile.role && profile.role !== (existing?.role ?? 'user')) requireRole('admin', 'Only admins can change roles');
+        const next: Profile = { ...PROFILE_DEFAULTS, username: 'user', ...existing, ...clone(profile) };
+        if (next.username !== existing?.username) guardUsername(next.username, next.id);
+        state.profiles.set(next.id, next);
+        return clone(next);
+      },
+      update: async (id, patch) => {
+        const profile = state.profiles.get(id);
+        // RLS silently skips other users' profiles
+        if (!profile || !(id === state.session?.user.id || sessionHasRole('admin'))) return;
+        if (patch.role && patch.role !== profile.role) requireRole('admin', 'Only admins can change roles');
+        if (patch.username !== undefined && patch.username !== profile.username) guardUsername(patch.username, id);
+        state.profiles.set(id, { ...profile, ...clone(patch), id });
+      },
+      isUsernameTaken: async (username, exceptId) => isUsernameTaken(username, exceptId)
+    },
+
+    posts: {
+      listFeed: async ({ viewerId, order = 'newest', limit, after, ...filter }) => {
+        const inOrder = order === 'oldest'
+          ? (a: FeedCursor, b: FeedCursor) => byFeedOrder(b, a)
+          : byFeedOrder;
+        return [...state.posts.values()]
+          .filter(p => p.status === 'live' && p.user_id !== viewerId && !hasReviewed(p.id, viewerId))
+          .filter(p => matchesFeedFilter(p, filter))
+          .filter(p => !after || inOrder(p, after) > 0)
+          .sort(inOrder)
+          .slice(0, limit)
+          .map(withPostJoin);
+      },
+      listRanked: async ({ viewerId, interests, rankedAt, limit, after, ...filter }) => {
+        const reviewedCategories = [...state.reviews.values()]
+          .filter(r => r.reviewer_id === viewerId)
+          .flatMap(r => state.posts.get(r.post_id)?.categories || []);
+        return [...state.posts.values()]
+          .filter(p => p.status === 'live' && p.user_id !== viewerId && !hasReviewed(p.id, viewerId))
+          .filter(p => p.created_at <= rankedAt && matchesFeedFilter(p, filter))
+          .map(p => ({ ...withPostJoin(p), rank_score: feedScore(p, { interests, reviewedCategories, rankedAt }) }))
+          .filter(p => !after || byRankOrder(p, after) > 0)
+          .sort(byRankOrder)
+          .slice(0, limit);
+      },
+      listByUser: async (userId) => {
+        return [...state.posts.values()]
+          .filter(p => p.user_id === userId && canViewPost(p))
+          .sort(byNewest)
+          .map(p => clone(p));
+      },
+      listAll: async () => {
+        return [...state.posts.values()].filter(canViewPost).sort(byNewest).map(withPostJoin);
+      },
+      get: async (id) => {
+        const post = state.posts.get(id);
+        return post && canViewPost(post) ? withPostJoin(post) : null;
+      },
+      create: async (input) => {
+        if (input.user_id !== state.session?.user.id) {
+          requireRole('admin', 'new row violates row-level security policy for table "posts"');
+        }
+        if (!state.profiles.has(input.user_id)) {
+          throw new DataError('insert or update on table "posts" violates foreign key constraint "posts_user_id_fkey"', '23503');
+        }
+        if (input.status !== 'draft' && input.status !== 'locked') {
+          requireRole('admin', 'Only admins can create posts that skip the queue');
+        }
+        if (input.reviews_required < REVIEW_LIMITS.min || input.reviews_required > REVIEW_LIMITS.max) {
+          throw new DataError(`Posts can ask for ${REVIEW_LIMITS.min} to ${REVIEW_LIMITS.max} reviews`, '22023');
+        }
+        const post: Post = {
+          ...POST_AGGREGATE_DEFAULTS,
+          ...clone(input),
+          reviews_received: 0,
+          credits_spent: 0,
+          id: crypto.randomUUID(),
+          created_at: new Date().toISOString()
+        };
+        state.posts.set(post.id, post);
+        if (post.status === 'locked') releaseQueuedPosts(post.user_id);
+        return clone(post);
+      },
+      update: async (id, patch) => {
+        const post = state.posts.get(id);
+        // RLS silently skips rows the caller may not update
+        if (!post || !(ownsPost(post) || sessionHasRole('admin'))) return;
+        if (patch.status && patch.status !== post.status && !(post.status === 'draft' && patch.status === 'locked')) {
+          requireRole('admin', 'Only admins can change a post status directly');
+        }
+        state.posts.set(id, { ...post, ...clone(patch), id });
+        if (patch.status === 'locked') releaseQueuedPosts(post.user_id);
+      },
+      remove: async (id) => {
+        const post = state.posts.get(id);
+        if (!post || !(ownsPost(post) || sessionHasRole('admin'))) return;
+        // The owner's aggregates lose this post's scores before the cascade
+        const owner = state.profiles.get(post.user_id);
+        if (owner) {
+          owner.review_count -= post.score_count;
+          shiftSums(owner, post, -1);
+          refreshMeans(undefined, owner);
+        }
+        state.posts.delete(id);
+        // ON DELETE CASCADE
+        for (const review of [...state.reviews.values()]) {
+          if (review.post_id === id) state.reviews.delete(review.id);
+        }
+      },
+      archive: async (id) => {
+        const post = state.posts.get(id);
+        if (!post || !(ownsPost(post) || sessionHasRole('moderator'))) {
+          throw new DataError('Only the owner or a moderator can archive a post', '42501');
+        }
+        post.status = 'archived';
+      },
+      extend: async (id, extraReviews) => {
+        const post = state.posts.get(id);
+        if (!post || !ownsPost(post)) {
+          throw new DataError('Only the post owner can extend a post', '42501');
+        }
+        if (post.status !== 'live' && post.status !== 'completed') {
+          throw new DataError('Only live or completed posts can be extended', '55000');
+        }
+        if (!Number.isInteger(extraReviews) || extraReviews < 1 || extraReviews > REVIEW_LIMITS.maxExtension) {
+          throw new DataError(`A post can be extended by 1 to ${REVIEW_LIMITS.maxExtension} reviews at a time`, '22023');
+        }
+        const cost = postCost(extraReviews);
+        if ((state.profiles.get(post.user_id)?.credit_balance ?? 0) < cost) {
+          throw new DataError('Not enough credits to extend this post', '55000');
+        }
+        addLedgerEntry({ user_id: post.user_id, amount: -cost, kind: 'post_extended', post_id: post.id });
+        post.status = 'live';
+        post.reviews_required += extraReviews;
+        post.credits_spent += cost;
+      }
+    },
+
+    reviews: {
+      listForPosts: async (postIds) => {
+        return [...state.reviews.values()]
+          .filter(r => postIds.includes(r.post_id) && !r.is_hidden)
+          .sort(byNewest)
+          .map(asPublicReview);
+      },
+      listReceived: async () => {
+        return [...state.reviews.values()]
+          .filter(r => state.posts.get(r.post_id)?.user_id === state.session?.user.id)
+          .sort(byNewest)
+          .map(asPublicReview);
+      },
+      listRecent: async (limit) => {
+        // Like the table's policies: moderators see every review, others their own
+        return [...state.reviews.values()]
+          .filter(r => sessionHasRole('moderator') || r.reviewer_id === state.session?.user.id)
+          .sort(byNewest)
+          .slice(0, limit)
+          .map(withReviewJoin);
+      },
+      listByReviewer: async (reviewerId) => {
+        if (reviewerId !== state.session?.user.id && !sessionHasRole('moderator')) return [];
+        return [...state.reviews.values()]
+          .filter(r => r.reviewer_id === reviewerId)
+          .sort(byNewest)
+          .map(clone);
+      },
+      hasReviewed: async (postId, reviewerId) => hasReviewed(postId, reviewerId),
+      submit: async (input) => {
+        const reviewerId = state.session?.user.id;
+        if (!reviewerId) return reject('Sign in to submit a review', '42501', 'not_authenticated');
+        const post = state.posts.get(input.post_id);
+        if (!post) return reject('This post no longer exists', 'P0002', 'post_not_found');
+        validateSubmission(input, post, reviewerId);
+
+        const isComparison = post.post_type === 'comparison';
+        const review: Review = {
+          ...clone(input),
+          confidence_score: isComparison ? null : input.confidence_score,
+          style_score: isComparison ? null : input.style_score,
+          approachability_score: isComparison ? null : input.approachability_score,
+          image_scores: isComparison ? [] : clone(input.image_scores),
+          comparisons: isComparison ? clone(input.comparisons) : [],
+          general_feedback: input.general_feedback.trim(),
+          reviewer_id: reviewerId,
+          id: crypto.randomUUID(),
+          is_hidden: false,
+          is_helpful: false,
+          created_at: new Date().toISOString()
+        };
+        state.reviews.set(review.id, review);
+        post.reviews_received += 1;
+        if (post.reviews_received >= post.reviews_required) post.status = 'completed';
+        applyReviewScores(review, 1);
+        addLedgerEntry({
+          user_id: review.reviewer_id,
+          amount: CREDIT_RULES.reviewReward,
+          kind: 'review_earned',
+          post_id: review.post_id,
+          review_id: review.id
+        });
+        return clone(review);
+      },
+      setHidden: async (id, hidden) => {
+        requireRole('moderator', 'Only moderators can hide reviews');
+        const review = state.reviews.get(id);
+        if (!review || review.is_hidden === hidden) return;
+        applyReviewScores(review, -1);
+        review.is_hidden = hidden;
+        applyReviewScores(review, 1);
+      }
+    },
+
+    credits: {
+      listLedger: async (userId) => {
+        // Entries written in the same millisecond keep newest-first order
+        return state.ledger.filter(e => e.user_id === userId).reverse().sort(byNewest).map(e => clone(e));
+      },
+      markHelpful: async (reviewId) => {
+        const review = state.reviews.get(reviewId);
+        if (!review) throw new DataError(`Review ${reviewId} not found`);
+        if (!ownsPost(requirePost(review.post_id))) {
+          throw new DataError('Only the post owner can mark a review as helpful', '42501');
+        }
+        if (review.is_helpful) return;
+        review.is_helpful = true;
+        // Kept reviews of deleted accounts have nobody to pay
+        if (!review.reviewer_id) return;
+        addLedgerEntry({
+          user_id: review.reviewer_id,
+          amount: CREDIT_RULES.helpfulBonus,
+          kind: 'helpful_bonus',
+          post_id: review.post_id,
+          review_id: review.id
+        });
+      },
+      grant: async (userId, amount) => {
+        requireRole('admin', 'Only admins can grant credits');
+        addLedgerEntry({ user_id: userId, amount, kind: 'admin_grant' });
+      }
+    },
+
+    accounts: {
+      requestDeletion: async (keepReviews) => {
+        const profile = state.session ? state.profiles.get(state.session.user.id) : undefined;
+        if (!profile) throw new DataError('Sign in to delete your account', '42501');
+        profile.deletion_requested_at = new Date().toISOString();
+        profile.keep_reviews_on_deletion = keepReviews;
+      },
+      cancelDeletion: async () => {
+        const profile = state.session ? state.profiles.get(state.session.user.id) : undefined;
+        if (profile) profile.deletion_requested_at = null;
+      },
+      listDueDeletions: async () => {
+        requireRole('admin', 'Only admins can list due account deletions');
+        return [...state.profiles.values()]
+          .filter(isDeletionDue)
+          .sort((a, b) => a.deletion_requested_at!.localeCompare(b.deletion_requested_at!))
+          .map(p => p.id);
+      },
+      purge: async (userId) => {
+        requireAccountAccess(userId, 'Only the account owner or an admin can delete an account');
+        const profile = state.profiles.get(userId);
+        if (!profile) throw new DataError('Account not found', 'P0002');
+        if (!isDeletionDue(profile)) throw new DataError('This account is not due for deletion', '55000');
+        purgeAccount(profile);
+      }
+    },
+
+    photos: {
+      upload: async (path, file, { onProgress, signal } = {}) => {
+        if (signal?.aborted) throw new DataError('Upload cancelled', UPLOAD_ABORTED);
+        if (!ownsPhotoPath(path)) throw new DataError('new row violates row-level security policy', '403');
+        if (state.photos.has(path)) throw new DataError('The resource already exists', '409');
+        const url = URL.createObjectURL(file);
+        state.photos.set(path, { url, uploadedAt: Date.now() });
+        onProgress?.(file.size, file.size);
+        return url;
+      },
+      remove: async (paths) => {
+        for (const path of paths) {
+          // Storage skips objects the caller may not delete
+          if (!ownsPhotoPath(path) && !sessionHasRole('admin')) continue;
+          const photo = state.photos.get(path);
+          if (photo) URL.revokeObjectURL(photo.url);
+          state.photos.delete(path);
+        }
+      },
+      pathOf: (publicUrl) => {
+        for (const [path, { url }] of state.photos) {
+          if (url === publicUrl) return path;
+        }
+        return null;
+      },
+      probeBucket: async () => {},
+      listOrphans: async () => {
+        requireRole('admin', 'Only admins can list orphaned photos');
+        const referenced = new Set([
+          ...[...state.posts.values()].flatMap(p => [...p.image_urls, ...(p.thumbnail_urls || [])]),
+          ...[...state.profiles.values()].map(p => p.avatar_url)
+        ]);
+        const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+        return [...state.photos]
+          .filter(([, { url, uploadedAt }]) => uploadedAt < cutoff && !referenced.has(url))
+          .map(([path]) => path);
+      },
+      listForAccount: async (userId) => {
+        requireAccountAccess(userId, 'Only the account owner or an admin can list its photos');
+        return [...state.photos.keys()].filter(path => {
+          const [first, second] = path.split('/');
+          return first === userId || (first === 'avatars' && second === userId);
+        });
+      }
+    },
+
+    // The in-memory schema always matches the latest migration
+    schema: {
+      listAppliedMigrations: async () => MIGRATIONS.map(m => m.version),
+      probeColumns: async () => {},
+      hasFunction: async () => true
+    }
+  };
+};
@@ -0,0 +1,44 @@
+const initialSchema = `-- Initial tables
+-- Create Profiles Table
+CREATE TABLE IF NOT EXISTS public.profiles (
+  id uuid REFERENCES auth.users ON DELETE CASCADE PRIMARY KEY,
+  username text UNIQUE,
+  avatar_url text,
+  interests text[],
+  total_confidence int DEFAULT 0,
+  total_style int DEFAULT 0,
+  total_approachability int DEFAULT 0,
+  review_count int DEFAULT 0,
+  posts_remaining_to_unlock int DEFAULT 3,
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+-- Create Posts Table (Crucial: categories is text[])
+CREATE TABLE IF NOT EXISTS public.posts (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  categories text[] NOT NULL,
+  image_urls text[] NOT NULL,
+  questions text[],
+  is_live boolean DEFAULT false,
+  reviews_required int DEFAULT 3,
+  reviews_received int DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+-- Create Reviews Table
+CREATE TABLE IF NOT EXISTS public.reviews (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id uuid REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  reviewer_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  confidence_score int NOT NULL,
+  style_score int NOT NULL,
+  approachability_score int NOT NULL,
+  answers text[],
+  general_feedback text NOT NULL,
+  is_anonymous boolean DEFAULT true,
+  created_at timestamp with time zone DEFAULT now()
+);
+`;
+
+export default initialSchema;
@@ -0,0 +1,27 @@
+const rowLevelSecurity = `-- Row level security
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public profiles" ON public.profiles;
+CREATE POLICY "Public profiles" ON public.profiles FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Users update own" ON public.profiles;
+CREATE POLICY "Users update own" ON public.profiles FOR UPDATE USING (true);
+DROP POLICY IF EXISTS "Public insert" ON public.profiles;
+CREATE POLICY "Public insert" ON public.profiles FOR INSERT WITH CHECK (true);
+
+ALTER TABLE public.posts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public view posts" ON public.posts;
+CREATE POLICY "Public view posts" ON public.posts FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public insert posts" ON public.posts;
+CREATE POLICY "Public insert posts" ON public.posts FOR INSERT WITH CHECK (true);
+DROP POLICY IF EXISTS "Public update posts" ON public.posts;
+CREATE POLICY "Public update posts" ON public.posts FOR UPDATE USING (true);
+DROP POLICY IF EXISTS "Public delete posts" ON public.posts;
+CREATE POLICY "Public delete posts" ON public.posts FOR DELETE USING (true);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public view reviews" ON public.reviews;
+CREATE POLICY "Public view reviews" ON public.reviews FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public insert reviews" ON public.reviews;
+CREATE POLICY "Public insert reviews" ON public.reviews FOR INSERT WITH CHECK (true);
+`;
+
+export default rowLevelSecurity;
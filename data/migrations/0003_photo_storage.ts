@@ -0,0 +1,11 @@
+const photoStorage = `-- Photo storage
+INSERT INTO storage.buckets (id, name, public) VALUES ('photos', 'photos', true) ON CONFLICT (id) DO NOTHING;
+DROP POLICY IF EXISTS "Public Storage Access" ON storage.objects;
+CREATE POLICY "Public Storage Access" ON storage.objects FOR SELECT USING (bucket_id = 'photos');
+DROP POLICY IF EXISTS "Public Storage Insert" ON storage.objects;
+CREATE POLICY "Public Storage Insert" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'photos');
+DROP POLICY IF EXISTS "Public Storage All" ON storage.objects;
+CREATE POLICY "Public Storage All" ON storage.objects FOR ALL USING (bucket_id = 'photos');
+`;
+
+export default photoStorage;
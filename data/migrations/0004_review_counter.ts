@@ -0,0 +1,10 @@
+const reviewCounter = `-- Review counter
+CREATE OR REPLACE FUNCTION increment_post_reviews(post_id_input uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE posts SET reviews_received = reviews_received + 1 WHERE id = post_id_input;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+`;
+
+export default reviewCounter;
@@ -0,0 +1,161 @@
+const scoreAggregation = `-- Score aggregation
+-- Running sums and sums of squares per metric give exact means and
+-- confidence intervals. total_* on profiles and avg_* on posts hold the means.
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS is_hidden boolean DEFAULT false;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN total_confidence TYPE numeric USING total_confidence::numeric,
+  ALTER COLUMN total_style TYPE numeric USING total_style::numeric,
+  ALTER COLUMN total_approachability TYPE numeric USING total_approachability::numeric,
+  ADD COLUMN IF NOT EXISTS confidence_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS confidence_sq_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS style_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS style_sq_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approachability_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approachability_sq_sum int DEFAULT 0;
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS score_count int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS avg_confidence numeric DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS avg_style numeric DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS avg_approachability numeric DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS confidence_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS confidence_sq_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS style_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS style_sq_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approachability_sum int DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS approachability_sq_sum int DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION refresh_score_means(post_id_input uuid, user_id_input uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE posts SET
+    avg_confidence = CASE WHEN score_count > 0 THEN confidence_sum::numeric / score_count ELSE 0 END,
+    avg_style = CASE WHEN score_count > 0 THEN style_sum::numeric / score_count ELSE 0 END,
+    avg_approachability = CASE WHEN score_count > 0 THEN approachability_sum::numeric / score_count ELSE 0 END
+  WHERE id = post_id_input;
+
+  UPDATE profiles SET
+    total_confidence = CASE WHEN review_count > 0 THEN confidence_sum::numeric / review_count ELSE 0 END,
+    total_style = CASE WHEN review_count > 0 THEN style_sum::numeric / review_count ELSE 0 END,
+    total_approachability = CASE WHEN review_count > 0 THEN approachability_sum::numeric / review_count ELSE 0 END
+  WHERE id = user_id_input;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Adds (direction = 1) or removes (direction = -1) one review's scores
+CREATE OR REPLACE FUNCTION apply_review_scores(r public.reviews, direction int)
+RETURNS void AS $$
+DECLARE
+  owner_id uuid;
+BEGIN
+  -- Comparison reviews carry pairwise votes instead of scores
+  IF r.is_hidden OR r.confidence_score IS NULL THEN RETURN; END IF;
+
+  UPDATE posts SET
+    score_count = score_count + direction,
+    confidence_sum = confidence_sum + direction * r.confidence_score,
+    confidence_sq_sum = confidence_sq_sum + direction * r.confidence_score * r.confidence_score,
+    style_sum = style_sum + direction * r.style_score,
+    style_sq_sum = style_sq_sum + direction * r.style_score * r.style_score,
+    approachability_sum = approachability_sum + direction * r.approachability_score,
+    approachability_sq_sum = approachability_sq_sum + direction * r.approachability_score * r.approachability_score
+  WHERE id = r.post_id
+  RETURNING user_id INTO owner_id;
+
+  -- The post is already gone when its reviews are removed by ON DELETE CASCADE;
+  -- on_post_deleted has settled the owner's sums in that case.
+  IF owner_id IS NULL THEN RETURN; END IF;
+
+  UPDATE profiles SET
+    review_count = review_count + direction,
+    confidence_sum = confidence_sum + direction * r.confidence_score,
+    confidence_sq_sum = confidence_sq_sum + direction * r.confidence_score * r.confidence_score,
+    style_sum = style_sum + direction * r.style_score,
+    style_sq_sum = style_sq_sum + direction * r.style_score * r.style_score,
+    approachability_sum = approachability_sum + direction * r.approachability_score,
+    approachability_sq_sum = approachability_sq_sum + direction * r.approachability_score * r.approachability_score
+  WHERE id = owner_id;
+
+  PERFORM refresh_score_means(r.post_id, owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION on_review_changed()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN PERFORM apply_review_scores(OLD, -1); END IF;
+  IF TG_OP IN ('UPDATE', 'INSERT') THEN PERFORM apply_review_scores(NEW, 1); END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reviews_aggregate_scores ON public.reviews;
+CREATE TRIGGER reviews_aggregate_scores
+  AFTER INSERT OR DELETE OR UPDATE OF is_hidden, confidence_score, style_score, approachability_score
+  ON public.reviews FOR EACH ROW EXECUTE FUNCTION on_review_changed();
+
+CREATE OR REPLACE FUNCTION on_post_deleted()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE profiles SET
+    review_count = review_count - OLD.score_count,
+    confidence_sum = confidence_sum - OLD.confidence_sum,
+    confidence_sq_sum = confidence_sq_sum - OLD.confidence_sq_sum,
+    style_sum = style_sum - OLD.style_sum,
+    style_sq_sum = style_sq_sum - OLD.style_sq_sum,
+    approachability_sum = approachability_sum - OLD.approachability_sum,
+    approachability_sq_sum = approachability_sq_sum - OLD.approachability_sq_sum
+  WHERE id = OLD.user_id;
+  PERFORM refresh_score_means(NULL, OLD.user_id);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_release_scores ON public.posts;
+CREATE TRIGGER posts_release_scores
+  BEFORE DELETE ON public.posts FOR EACH ROW EXECUTE FUNCTION on_post_deleted();
+
+-- Only the triggers above may touch the sums. Functions are executable by
+-- PUBLIC by default, and Supabase grants anon and authenticated on its own.
+REVOKE EXECUTE ON FUNCTION refresh_score_means(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_review_scores(public.reviews, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION on_review_changed() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION on_post_deleted() FROM PUBLIC, anon, authenticated;
+
+-- Backfill: rebuild every aggregate from the visible reviews
+WITH s AS (
+  SELECT post_id, count(confidence_score) AS n,
+    sum(confidence_score) AS c, sum(confidence_score * confidence_score) AS c2,
+    sum(style_score) AS st, sum(style_score * style_score) AS st2,
+    sum(approachability_score) AS a, sum(approachability_score * approachability_score) AS a2
+  FROM reviews WHERE NOT is_hidden GROUP BY post_id
+)
+UPDATE posts p SET
+  score_count = coalesce(s.n, 0),
+  confidence_sum = coalesce(s.c, 0), confidence_sq_sum = coalesce(s.c2, 0),
+  style_sum = coalesce(s.st, 0), style_sq_sum = coalesce(s.st2, 0),
+  approachability_sum = coalesce(s.a, 0), approachability_sq_sum = coalesce(s.a2, 0)
+FROM posts p2 LEFT JOIN s ON s.post_id = p2.id
+WHERE p.id = p2.id;
+
+WITH s AS (
+  SELECT user_id, sum(score_count) AS n,
+    sum(confidence_sum) AS c, sum(confidence_sq_sum) AS c2,
+    sum(style_sum) AS st, sum(style_sq_sum) AS st2,
+    sum(approachability_sum) AS a, sum(approachability_sq_sum) AS a2
+  FROM posts GROUP BY user_id
+)
+UPDATE profiles pr SET
+  review_count = coalesce(s.n, 0),
+  confidence_sum = coalesce(s.c, 0), confidence_sq_sum = coalesce(s.c2, 0),
+  style_sum = coalesce(s.st, 0), style_sq_sum = coalesce(s.st2, 0),
+  approachability_sum = coalesce(s.a, 0), approachability_sq_sum = coalesce(s.a2, 0)
+FROM profiles pr2 LEFT JOIN s ON s.user_id = pr2.id
+WHERE pr.id = pr2.id;
+
+SELECT refresh_score_means(p.id, p.user_id) FROM posts p;
+SELECT refresh_score_means(NULL, pr.id) FROM profiles pr;
+`;
+
+export default scoreAggregation;
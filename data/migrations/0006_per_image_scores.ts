@@ -0,0 +1,6 @@
+const perImageScores = `-- Per-image scores
+-- Optional [{ image_index, confidence_score, style_score, approachability_score }]
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS image_scores jsonb DEFAULT '[]'::jsonb;
+`;
+
+export default perImageScores;
@@ -0,0 +1,15 @@
+const comparisonPosts = `-- A/B comparison posts
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS post_type text DEFAULT 'rating';
+ALTER TABLE public.posts DROP CONSTRAINT IF EXISTS posts_post_type_check;
+ALTER TABLE public.posts ADD CONSTRAINT posts_post_type_check
+  CHECK (post_type IN ('rating', 'comparison') AND (post_type = 'rating' OR cardinality(image_urls) >= 2));
+
+-- Comparison reviews store [{ winner_index, loser_index, reason }] and leave the scores empty
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS comparisons jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE public.reviews
+  ALTER COLUMN confidence_score DROP NOT NULL,
+  ALTER COLUMN style_score DROP NOT NULL,
+  ALTER COLUMN approachability_score DROP NOT NULL;
+`;
+
+export default comparisonPosts;
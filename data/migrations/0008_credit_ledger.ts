@@ -0,0 +1,135 @@
+const creditLedger = `-- Review credit ledger
+-- Replaces posts_remaining_to_unlock: each review earns 1 credit, each post
+-- costs 3, and a review the post owner marks helpful earns a 1 credit bonus.
+-- Posts inserted with is_live = false queue until the balance covers them.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS credit_balance int DEFAULT 0;
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS credits_spent int DEFAULT 0;
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS is_helpful boolean DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  amount int NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('opening_balance', 'review_earned', 'post_spent', 'helpful_bonus', 'admin_grant')),
+  post_id uuid REFERENCES public.posts(id) ON DELETE SET NULL,
+  review_id uuid REFERENCES public.reviews(id) ON DELETE SET NULL,
+  created_at timestamp with time zone DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS credit_ledger_user_created_idx ON public.credit_ledger (user_id, created_at DESC);
+
+-- Entries are only ever written by the SECURITY DEFINER functions below
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users view own ledger" ON public.credit_ledger;
+CREATE POLICY "Users view own ledger" ON public.credit_ledger FOR SELECT USING (auth.uid() = user_id);
+
+-- Publishes the user's oldest queued posts while the balance covers them
+CREATE OR REPLACE FUNCTION release_queued_posts(user_id_input uuid)
+RETURNS void AS $$
+DECLARE
+  queued record;
+  balance int;
+BEGIN
+  FOR queued IN
+    SELECT id FROM posts
+    WHERE user_id = user_id_input AND NOT is_live AND credits_spent = 0
+    ORDER BY created_at, id
+    FOR UPDATE
+  LOOP
+    SELECT credit_balance INTO balance FROM profiles WHERE id = user_id_input FOR UPDATE;
+    EXIT WHEN balance < 3;
+    INSERT INTO credit_ledger (user_id, amount, kind, post_id) VALUES (user_id_input, -3, 'post_spent', queued.id);
+    UPDATE posts SET is_live = true, credits_spent = 3 WHERE id = queued.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION on_ledger_entry()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE profiles SET credit_balance = credit_balance + NEW.amount WHERE id = NEW.user_id;
+  IF NEW.amount > 0 THEN PERFORM release_queued_posts(NEW.user_id); END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS credit_ledger_apply ON public.credit_ledger;
+CREATE TRIGGER credit_ledger_apply
+  AFTER INSERT ON public.credit_ledger FOR EACH ROW EXECUTE FUNCTION on_ledger_entry();
+
+CREATE OR REPLACE FUNCTION on_review_earn_credit()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO credit_ledger (user_id, amount, kind, post_id, review_id)
+  VALUES (NEW.reviewer_id, 1, 'review_earned', NEW.post_id, NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reviews_earn_credit ON public.reviews;
+CREATE TRIGGER reviews_earn_credit
+  AFTER INSERT ON public.reviews FOR EACH ROW EXECUTE FUNCTION on_review_earn_credit();
+
+CREATE OR REPLACE FUNCTION on_post_queued()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT NEW.is_live THEN PERFORM release_queued_posts(NEW.user_id); END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_release_queue ON public.posts;
+CREATE TRIGGER posts_release_queue
+  AFTER INSERT ON public.posts FOR EACH ROW EXECUTE FUNCTION on_post_queued();
+
+CREATE OR REPLACE FUNCTION mark_review_helpful(review_id_input uuid)
+RETURNS void AS $$
+DECLARE
+  target record;
+BEGIN
+  SELECT r.id, r.post_id, r.reviewer_id, r.is_helpful, p.user_id AS owner_id INTO target
+  FROM reviews r JOIN posts p ON p.id = r.post_id
+  WHERE r.id = review_id_input
+  FOR UPDATE OF r;
+
+  IF target.id IS NULL THEN RAISE EXCEPTION 'Review not found'; END IF;
+  IF target.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the post owner can mark a review as helpful' USING ERRCODE = '42501';
+  END IF;
+  IF target.is_helpful THEN RETURN; END IF;
+
+  UPDATE reviews SET is_helpful = true WHERE id = target.id;
+  INSERT INTO credit_ledger (user_id, amount, kind, post_id, review_id)
+  VALUES (target.reviewer_id, 1, 'helpful_bonus', target.post_id, target.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- No roles exist yet, so no signed-in user may grant: credits are granted
+-- from the SQL editor until 0012_roles lets admins do it
+CREATE OR REPLACE FUNCTION admin_grant_credits(user_id_input uuid, amount_input int)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Only admins can grant credits' USING ERRCODE = '42501';
+  END IF;
+  INSERT INTO credit_ledger (user_id, amount, kind) VALUES (user_id_input, amount_input, 'admin_grant');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Balances move only through the ledger triggers and the RPCs above
+REVOKE EXECUTE ON FUNCTION release_queued_posts(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION on_ledger_entry() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION on_review_earn_credit() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION on_post_queued() FROM PUBLIC, anon, authenticated;
+
+-- The old counter and its RPC are superseded by the ledger
+DROP FUNCTION IF EXISTS decrement_profile_unlock_counter(uuid);
+
+-- Opening balances: credit reviews done under the old counter, once
+INSERT INTO credit_ledger (user_id, amount, kind)
+SELECT pr.id, 3 - pr.posts_remaining_to_unlock, 'opening_balance'
+FROM profiles pr
+WHERE pr.posts_remaining_to_unlock < 3
+  AND NOT EXISTS (SELECT 1 FROM credit_ledger l WHERE l.user_id = pr.id);
+`;
+
+export default creditLedger;
@@ -0,0 +1,33 @@
+const uniqueReviews = `-- One review per reviewer and post
+-- Keep each reviewer's earliest review, then resync the counters of the posts
+-- that had duplicates. Credits already earned by the duplicates stay booked.
+WITH removed AS (
+  DELETE FROM reviews r
+  USING reviews earlier
+  WHERE r.post_id = earlier.post_id
+    AND r.reviewer_id = earlier.reviewer_id
+    AND (earlier.created_at, earlier.id) < (r.created_at, r.id)
+  RETURNING r.post_id
+)
+UPDATE posts p SET reviews_received = (SELECT count(*) FROM reviews r WHERE r.post_id = p.id)
+WHERE p.id IN (SELECT post_id FROM removed);
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_one_per_reviewer;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_one_per_reviewer UNIQUE (post_id, reviewer_id);
+
+CREATE OR REPLACE FUNCTION prevent_self_review()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM posts WHERE id = NEW.post_id AND user_id = NEW.reviewer_id) THEN
+    RAISE EXCEPTION 'You cannot review your own post' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reviews_no_self_review ON public.reviews;
+CREATE TRIGGER reviews_no_self_review
+  BEFORE INSERT ON public.reviews FOR EACH ROW EXECUTE FUNCTION prevent_self_review();
+`;
+
+export default uniqueReviews;
@@ -0,0 +1,122 @@
+const submitReview = `-- Atomic review submission
+-- Reviews are only written through submit_review, which validates the input,
+-- inserts the review and bumps the post counter in one transaction. The
+-- aggregate and credit triggers run inside it too. Every rejection carries a
+-- machine-readable reason in HINT for the client.
+
+-- Raises unless the post still takes reviews. Kept apart from submit_review
+-- so later post states only need to replace this check.
+CREATE OR REPLACE FUNCTION check_post_open_for_review(target public.posts)
+RETURNS void AS $$
+BEGIN
+  IF target.reviews_received >= target.reviews_required THEN
+    RAISE EXCEPTION 'This post already has all the reviews it asked for' USING ERRCODE = '55000', HINT = 'post_complete';
+  END IF;
+  IF NOT target.is_live THEN
+    RAISE EXCEPTION 'This post is not open for reviews' USING ERRCODE = '55000', HINT = 'post_not_live';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_review(review_input jsonb)
+RETURNS public.reviews AS $$
+DECLARE
+  reviewer uuid := auth.uid();
+  target public.posts;
+  image_count int;
+  answers_input jsonb := coalesce(review_input->'answers', '[]'::jsonb);
+  image_scores_input jsonb := coalesce(review_input->'image_scores', '[]'::jsonb);
+  comparisons_input jsonb := coalesce(review_input->'comparisons', '[]'::jsonb);
+  created public.reviews;
+BEGIN
+  IF reviewer IS NULL THEN
+    RAISE EXCEPTION 'Sign in to submit a review' USING ERRCODE = '42501', HINT = 'not_authenticated';
+  END IF;
+
+  SELECT * INTO target FROM posts WHERE id = (review_input->>'post_id')::uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This post no longer exists' USING ERRCODE = 'P0002', HINT = 'post_not_found';
+  END IF;
+  IF target.user_id = reviewer THEN
+    RAISE EXCEPTION 'You cannot review your own post' USING ERRCODE = '23514', HINT = 'own_post';
+  END IF;
+  PERFORM check_post_open_for_review(target);
+  IF EXISTS (SELECT 1 FROM reviews WHERE post_id = target.id AND reviewer_id = reviewer) THEN
+    RAISE EXCEPTION 'You have already reviewed this post' USING ERRCODE = '23505', HINT = 'already_reviewed';
+  END IF;
+
+  image_count := coalesce(array_length(target.image_urls, 1), 0);
+
+  IF target.post_type = 'comparison' THEN
+    -- One vote per pair of photos, each between two different valid photos
+    IF jsonb_array_length(comparisons_input) <> image_count * (image_count - 1) / 2
+       OR EXISTS (
+         SELECT 1 FROM jsonb_array_elements(comparisons_input) v
+         WHERE (v->>'winner_index')::int IS NULL OR (v->>'loser_index')::int IS NULL
+            OR (v->>'winner_index')::int NOT BETWEEN 0 AND image_count - 1
+            OR (v->>'loser_index')::int NOT BETWEEN 0 AND image_count - 1
+            OR (v->>'winner_index')::int = (v->>'loser_index')::int
+       ) THEN
+      RAISE EXCEPTION 'Pick the better photo in every pair' USING ERRCODE = '22023', HINT = 'invalid_comparisons';
+    END IF;
+  ELSE
+    IF EXISTS (
+      SELECT 1 FROM unnest(ARRAY[
+        (review_input->>'confidence_score')::int,
+        (review_input->>'style_score')::int,
+        (review_input->>'approachability_score')::int
+      ]) s WHERE s IS NULL OR s NOT BETWEEN 1 AND 10
+    ) THEN
+      RAISE EXCEPTION 'Scores must be whole numbers from 1 to 10' USING ERRCODE = '22023', HINT = 'invalid_score';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(image_scores_input) s
+      WHERE (s->>'image_index')::int IS NULL
+         OR (s->>'image_index')::int NOT BETWEEN 0 AND image_count - 1
+         OR EXISTS (
+           SELECT 1 FROM unnest(ARRAY[
+             (s->>'confidence_score')::int,
+             (s->>'style_score')::int,
+             (s->>'approachability_score')::int
+           ]) m WHERE m IS NULL OR m NOT BETWEEN 1 AND 10
+         )
+    ) THEN
+      RAISE EXCEPTION 'Per-photo scores must be whole numbers from 1 to 10' USING ERRCODE = '22023', HINT = 'invalid_score';
+    END IF;
+  END IF;
+
+  IF jsonb_array_length(answers_input) <> coalesce(array_length(target.questions, 1), 0) THEN
+    RAISE EXCEPTION 'Answer every question the poster asked' USING ERRCODE = '22023', HINT = 'answer_count';
+  END IF;
+  IF coalesce(trim(review_input->>'general_feedback'), '') = '' THEN
+    RAISE EXCEPTION 'General feedback is required' USING ERRCODE = '22023', HINT = 'missing_feedback';
+  END IF;
+
+  INSERT INTO reviews (
+    post_id, reviewer_id, confidence_score, style_score, approachability_score,
+    image_scores, comparisons, answers, general_feedback, is_anonymous
+  ) VALUES (
+    target.id,
+    reviewer,
+    CASE WHEN target.post_type = 'comparison' THEN NULL ELSE (review_input->>'confidence_score')::int END,
+    CASE WHEN target.post_type = 'comparison' THEN NULL ELSE (review_input->>'style_score')::int END,
+    CASE WHEN target.post_type = 'comparison' THEN NULL ELSE (review_input->>'approachability_score')::int END,
+    CASE WHEN target.post_type = 'comparison' THEN '[]'::jsonb ELSE image_scores_input END,
+    CASE WHEN target.post_type = 'comparison' THEN comparisons_input ELSE '[]'::jsonb END,
+    ARRAY(SELECT jsonb_array_elements_text(answers_input)),
+    trim(review_input->>'general_feedback'),
+    coalesce((review_input->>'is_anonymous')::boolean, true)
+  ) RETURNING * INTO created;
+
+  UPDATE posts SET reviews_received = reviews_received + 1 WHERE id = target.id;
+  RETURN created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION check_post_open_for_review(public.posts) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY IF EXISTS "Public insert reviews" ON public.reviews;
+DROP FUNCTION IF EXISTS increment_post_reviews(uuid);
+`;
+
+export default submitReview;
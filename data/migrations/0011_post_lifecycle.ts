@@ -0,0 +1,140 @@
+const postLifecycle = `-- Post lifecycle
+-- status replaces is_live: draft -> locked (queued) -> live -> completed,
+-- and the owner can archive a post at any point. A post costs 1 credit per
+-- review it asks for (3 to 10), and owners can buy more reviews later.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS status text DEFAULT 'locked';
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'posts' AND column_name = 'is_live'
+  ) THEN
+    UPDATE posts SET status = CASE
+      WHEN NOT is_live THEN 'locked'
+      WHEN reviews_received >= reviews_required THEN 'completed'
+      ELSE 'live'
+    END;
+    ALTER TABLE posts DROP COLUMN is_live;
+  END IF;
+END $$;
+
+ALTER TABLE public.posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE public.posts ADD CONSTRAINT posts_status_check
+  CHECK (status IN ('draft', 'locked', 'live', 'completed', 'archived'));
+CREATE INDEX IF NOT EXISTS posts_status_created_idx ON public.posts (status, created_at DESC);
+
+ALTER TABLE public.credit_ledger DROP CONSTRAINT IF EXISTS credit_ledger_kind_check;
+ALTER TABLE public.credit_ledger ADD CONSTRAINT credit_ledger_kind_check
+  CHECK (kind IN ('opening_balance', 'review_earned', 'post_spent', 'post_extended', 'helpful_bonus', 'admin_grant'));
+
+CREATE OR REPLACE FUNCTION check_new_post()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.reviews_required NOT BETWEEN 3 AND 10 THEN
+    RAISE EXCEPTION 'Posts can ask for 3 to 10 reviews' USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_check_new ON public.posts;
+CREATE TRIGGER posts_check_new
+  BEFORE INSERT ON public.posts FOR EACH ROW EXECUTE FUNCTION check_new_post();
+
+-- Replaces the 0008_credit_ledger version: queued posts are 'locked' and cost 1 credit per requested review
+CREATE OR REPLACE FUNCTION release_queued_posts(user_id_input uuid)
+RETURNS void AS $$
+DECLARE
+  queued record;
+  balance int;
+BEGIN
+  FOR queued IN
+    SELECT id, reviews_required FROM posts
+    WHERE user_id = user_id_input AND status = 'locked' AND credits_spent = 0
+    ORDER BY created_at, id
+    FOR UPDATE
+  LOOP
+    SELECT credit_balance INTO balance FROM profiles WHERE id = user_id_input FOR UPDATE;
+    EXIT WHEN balance < queued.reviews_required;
+    INSERT INTO credit_ledger (user_id, amount, kind, post_id)
+    VALUES (user_id_input, -queued.reviews_required, 'post_spent', queued.id);
+    UPDATE posts SET status = 'live', credits_spent = queued.reviews_required WHERE id = queued.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Also runs when a draft is submitted to the queue
+CREATE OR REPLACE FUNCTION on_post_queued()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'locked' THEN PERFORM release_queued_posts(NEW.user_id); END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS posts_release_queue ON public.posts;
+CREATE TRIGGER posts_release_queue
+  AFTER INSERT OR UPDATE OF status ON public.posts FOR EACH ROW EXECUTE FUNCTION on_post_queued();
+
+-- Live posts close themselves once they have every review they asked for
+CREATE OR REPLACE FUNCTION complete_reviewed_post()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'live' AND NEW.reviews_received >= NEW.reviews_required THEN
+    NEW.status := 'completed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_auto_complete ON public.posts;
+CREATE TRIGGER posts_auto_complete
+  BEFORE UPDATE ON public.posts FOR EACH ROW EXECUTE FUNCTION complete_reviewed_post();
+
+-- Replaces the 0010_submit_review version: only live posts take reviews
+CREATE OR REPLACE FUNCTION check_post_open_for_review(target public.posts)
+RETURNS void AS $$
+BEGIN
+  IF target.status = 'completed' OR target.reviews_received >= target.reviews_required THEN
+    RAISE EXCEPTION 'This post already has all the reviews it asked for' USING ERRCODE = '55000', HINT = 'post_complete';
+  END IF;
+  IF target.status <> 'live' THEN
+    RAISE EXCEPTION 'This post is not open for reviews' USING ERRCODE = '55000', HINT = 'post_not_live';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION extend_post(post_id_input uuid, extra_reviews int)
+RETURNS void AS $$
+DECLARE
+  target public.posts;
+  balance int;
+BEGIN
+  SELECT * INTO target FROM posts WHERE id = post_id_input FOR UPDATE;
+  IF NOT FOUND OR target.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the post owner can extend a post' USING ERRCODE = '42501';
+  END IF;
+  IF target.status NOT IN ('live', 'completed') THEN
+    RAISE EXCEPTION 'Only live or completed posts can be extended' USING ERRCODE = '55000';
+  END IF;
+  IF extra_reviews IS NULL OR extra_reviews NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'A post can be extended by 1 to 10 reviews at a time' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT credit_balance INTO balance FROM profiles WHERE id = target.user_id FOR UPDATE;
+  IF balance < extra_reviews THEN
+    RAISE EXCEPTION 'Not enough credits to extend this post' USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO credit_ledger (user_id, amount, kind, post_id)
+  VALUES (target.user_id, -extra_reviews, 'post_extended', target.id);
+  UPDATE posts
+  SET status = 'live',
+      reviews_required = reviews_required + extra_reviews,
+      credits_spent = credits_spent + extra_reviews
+  WHERE id = target.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+`;
+
+export default postLifecycle;
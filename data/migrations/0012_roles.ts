@@ -0,0 +1,101 @@
+const roles = `-- Roles
+-- user < moderator < admin. Moderators hide reviews and archive posts; every
+-- other Admin Panel action is admin-only. Everyone starts as a user, so
+-- promote the first admin from the SQL editor:
+--   UPDATE profiles SET role = 'admin' WHERE username = 'your_username';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS role text DEFAULT 'user';
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('user', 'moderator', 'admin'));
+
+-- True when the signed-in user holds at least the required role
+CREATE OR REPLACE FUNCTION has_role(required text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+      AND CASE role WHEN 'admin' THEN 3 WHEN 'moderator' THEN 2 ELSE 1 END
+        >= CASE required WHEN 'admin' THEN 3 WHEN 'moderator' THEN 2 ELSE 1 END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- API requests run as anon or authenticated; the SQL editor and the
+-- SECURITY DEFINER functions above do not, and are trusted
+CREATE OR REPLACE FUNCTION guard_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND NOT has_role('admin') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'user';
+    ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+      RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS profiles_guard_role ON public.profiles;
+CREATE TRIGGER profiles_guard_role
+  BEFORE INSERT OR UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION guard_profile_role();
+
+-- Only admins may insert posts that skip the draft and credit queue
+CREATE OR REPLACE FUNCTION guard_post_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status NOT IN ('draft', 'locked') AND current_user IN ('anon', 'authenticated') AND NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can create posts that skip the queue' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_guard_status ON public.posts;
+CREATE TRIGGER posts_guard_status
+  BEFORE INSERT ON public.posts FOR EACH ROW EXECUTE FUNCTION guard_post_status();
+
+DROP POLICY IF EXISTS "Public update posts" ON public.posts;
+DROP POLICY IF EXISTS "Owners and admins update posts" ON public.posts;
+CREATE POLICY "Owners and admins update posts" ON public.posts
+  FOR UPDATE USING (auth.uid() = user_id OR has_role('admin'));
+
+DROP POLICY IF EXISTS "Public delete posts" ON public.posts;
+DROP POLICY IF EXISTS "Owners and admins delete posts" ON public.posts;
+CREATE POLICY "Owners and admins delete posts" ON public.posts
+  FOR DELETE USING (auth.uid() = user_id OR has_role('admin'));
+
+-- Hiding and restoring reviews. Moderators change is_hidden and nothing
+-- else, so there is no update policy on reviews: it goes through this RPC.
+DROP POLICY IF EXISTS "Moderators update reviews" ON public.reviews;
+CREATE OR REPLACE FUNCTION set_review_hidden(review_id_input uuid, hidden_input boolean)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_role('moderator') THEN
+    RAISE EXCEPTION 'Only moderators can hide reviews' USING ERRCODE = '42501';
+  END IF;
+  UPDATE reviews SET is_hidden = hidden_input WHERE id = review_id_input;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION archive_post(post_id_input uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE posts SET status = 'archived'
+  WHERE id = post_id_input AND (user_id = auth.uid() OR has_role('moderator'));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the owner or a moderator can archive a post' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_grant_credits(user_id_input uuid, amount_input int)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can grant credits' USING ERRCODE = '42501';
+  END IF;
+  INSERT INTO credit_ledger (user_id, amount, kind) VALUES (user_id_input, amount_input, 'admin_grant');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+`;
+
+export default roles;
@@ -0,0 +1,7 @@
+const photoThumbnails = `-- Photo thumbnails
+-- Small variants of image_urls, in the same order. Posts from before
+-- thumbnails have none and fall back to the full photos.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS thumbnail_urls text[] DEFAULT '{}';
+`;
+
+export default photoThumbnails;
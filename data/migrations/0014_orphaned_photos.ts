@@ -0,0 +1,28 @@
+const orphanedPhotos = `-- Orphaned photos
+-- Storage objects in the photos bucket that no post points at, e.g. left
+-- behind by an upload whose post was never created. Objects younger than
+-- min_age are skipped because their post may still be on its way. Storage
+-- objects must be deleted through the Storage API, so the admin sweep removes
+-- the returned paths from the client.
+CREATE OR REPLACE FUNCTION list_orphaned_photos(min_age interval DEFAULT interval '1 day')
+RETURNS SETOF text AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can list orphaned photos' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'photos'
+    AND o.created_at < now() - min_age
+    AND NOT EXISTS (
+      SELECT 1
+      FROM posts p, unnest(p.image_urls || coalesce(p.thumbnail_urls, '{}')) AS url
+      WHERE split_part(url, '/storage/v1/object/public/photos/', 2) = o.name
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+`;
+
+export default orphanedPhotos;
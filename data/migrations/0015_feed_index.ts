@@ -0,0 +1,6 @@
+const feedIndex = `-- Feed index
+-- The feed pages through live posts by (created_at, id), newest first
+CREATE INDEX IF NOT EXISTS posts_feed_idx ON public.posts (created_at DESC, id DESC) WHERE status = 'live';
+`;
+
+export default feedIndex;
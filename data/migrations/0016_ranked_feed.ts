@@ -0,0 +1,44 @@
+const rankedFeed = `-- Ranked feed
+-- Recommended feed order for the signed-in reviewer, highest score first.
+-- The score adds up the share of requested reviews still missing, days spent
+-- waiting, interest match and categories the reviewer has reviewed before;
+-- weights match FEED_RANKING in types.ts. It is taken as of ranked_at and
+-- posts created after it are left out, so one feed pages consistently by
+-- (rank_score, post_id).
+CREATE OR REPLACE FUNCTION ranked_feed(
+  interests text[] DEFAULT '{}',
+  ranked_at timestamp with time zone DEFAULT now(),
+  after_score numeric DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size int DEFAULT 20
+)
+RETURNS TABLE (post_id uuid, rank_score numeric) AS $$
+  WITH history AS (
+    SELECT DISTINCT c.category
+    FROM reviews r
+    JOIN posts p ON p.id = r.post_id
+    CROSS JOIN unnest(p.categories) AS c(category)
+    WHERE r.reviewer_id = auth.uid()
+  ),
+  scored AS (
+    SELECT p.id, round(
+      3 * greatest(p.reviews_required - p.reviews_received, 0)::numeric / greatest(p.reviews_required, 1)
+      + extract(epoch FROM ranked_at - p.created_at)::numeric / 86400
+      + 1 * (SELECT count(*) FROM unnest(p.categories) c WHERE c = ANY(interests))::numeric / greatest(cardinality(p.categories), 1)
+      + 0.5 * (SELECT count(*) FROM unnest(p.categories) c WHERE c IN (SELECT category FROM history))::numeric / greatest(cardinality(p.categories), 1),
+      6) AS score
+    FROM posts p
+    WHERE p.status = 'live'
+      AND p.user_id <> auth.uid()
+      AND p.created_at <= ranked_at
+      AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.post_id = p.id AND r.reviewer_id = auth.uid())
+  )
+  SELECT id, score
+  FROM scored
+  WHERE after_score IS NULL OR (score, id) < (after_score, after_id)
+  ORDER BY score DESC, id DESC
+  LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+`;
+
+export default rankedFeed;
@@ -0,0 +1,55 @@
+const feedFilters = `-- Feed filters
+-- reviews_remaining lets the REST API filter posts close to completion,
+-- which needs a comparison between two columns.
+ALTER TABLE public.posts ADD COLUMN IF NOT EXISTS reviews_remaining int
+  GENERATED ALWAYS AS (greatest(reviews_required - reviews_received, 0)) STORED;
+
+-- ranked_feed takes the same filters as the chronological feed. NULL (or an
+-- empty exclude_ids) leaves a filter off. The old signature is dropped so
+-- the two don't overload each other.
+DROP FUNCTION IF EXISTS ranked_feed(text[], timestamp with time zone, numeric, uuid, int);
+CREATE OR REPLACE FUNCTION ranked_feed(
+  interests text[] DEFAULT '{}',
+  ranked_at timestamp with time zone DEFAULT now(),
+  after_score numeric DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size int DEFAULT 20,
+  categories text[] DEFAULT NULL,
+  has_questions boolean DEFAULT NULL,
+  max_reviews_remaining int DEFAULT NULL,
+  exclude_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (post_id uuid, rank_score numeric) AS $$
+  WITH history AS (
+    SELECT DISTINCT c.category
+    FROM reviews r
+    JOIN posts p ON p.id = r.post_id
+    CROSS JOIN unnest(p.categories) AS c(category)
+    WHERE r.reviewer_id = auth.uid()
+  ),
+  scored AS (
+    SELECT p.id, round(
+      3 * greatest(p.reviews_required - p.reviews_received, 0)::numeric / greatest(p.reviews_required, 1)
+      + extract(epoch FROM ranked_feed.ranked_at - p.created_at)::numeric / 86400
+      + 1 * (SELECT count(*) FROM unnest(p.categories) c WHERE c = ANY(ranked_feed.interests))::numeric / greatest(cardinality(p.categories), 1)
+      + 0.5 * (SELECT count(*) FROM unnest(p.categories) c WHERE c IN (SELECT category FROM history))::numeric / greatest(cardinality(p.categories), 1),
+      6) AS score
+    FROM posts p
+    WHERE p.status = 'live'
+      AND p.user_id <> auth.uid()
+      AND p.created_at <= ranked_feed.ranked_at
+      AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.post_id = p.id AND r.reviewer_id = auth.uid())
+      AND (ranked_feed.categories IS NULL OR p.categories && ranked_feed.categories)
+      AND (has_questions IS NULL OR (coalesce(cardinality(p.questions), 0) > 0) = has_questions)
+      AND (max_reviews_remaining IS NULL OR greatest(p.reviews_required - p.reviews_received, 0) <= max_reviews_remaining)
+      AND NOT (p.id = ANY(exclude_ids))
+  )
+  SELECT id, score
+  FROM scored
+  WHERE after_score IS NULL OR (score, id) < (after_score, after_id)
+  ORDER BY score DESC, id DESC
+  LIMIT page_size;
+$$ LANGUAGE sql STABLE;
+`;
+
+export default feedFilters;
@@ -0,0 +1,51 @@
+const profileSettings = `-- Profile settings
+-- Whether new reviews start out anonymous; the reviewer can still change it
+-- per review.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS review_anonymously boolean DEFAULT true;
+
+-- Usernames are unique regardless of case. Checked on change only, so
+-- existing accounts that differ by case alone keep working.
+CREATE OR REPLACE FUNCTION guard_profile_username()
+RETURNS trigger AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.username IS DISTINCT FROM OLD.username) AND EXISTS (
+    SELECT 1 FROM profiles WHERE lower(username) = lower(NEW.username) AND id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Username % is already taken', NEW.username USING ERRCODE = '23505';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS profiles_guard_username ON public.profiles;
+CREATE TRIGGER profiles_guard_username
+  BEFORE INSERT OR UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION guard_profile_username();
+
+-- Avatars share the photos bucket, so the orphan sweep must keep them
+CREATE OR REPLACE FUNCTION list_orphaned_photos(min_age interval DEFAULT interval '1 day')
+RETURNS SETOF text AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can list orphaned photos' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'photos'
+    AND o.created_at < now() - min_age
+    AND NOT EXISTS (
+      SELECT 1
+      FROM posts p, unnest(p.image_urls || coalesce(p.thumbnail_urls, '{}')) AS url
+      WHERE split_part(url, '/storage/v1/object/public/photos/', 2) = o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM profiles pr
+      WHERE split_part(pr.avatar_url, '/storage/v1/object/public/photos/', 2) = o.name
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+`;
+
+export default profileSettings;
@@ -0,0 +1,38 @@
+const anonymousReviews = `-- Anonymous reviews
+-- Post owners and the public read reviews through public_reviews, which
+-- drops the reviewer of an anonymous review before it leaves the database.
+-- The table itself is readable only by the reviewer, for their own rows, and
+-- by moderators. The view runs as its owner, so it reads past those policies.
+DROP POLICY IF EXISTS "Public view reviews" ON public.reviews;
+DROP POLICY IF EXISTS "Reviewers view own reviews" ON public.reviews;
+CREATE POLICY "Reviewers view own reviews" ON public.reviews FOR SELECT USING (auth.uid() = reviewer_id);
+DROP POLICY IF EXISTS "Moderators view reviews" ON public.reviews;
+CREATE POLICY "Moderators view reviews" ON public.reviews FOR SELECT USING (has_role('moderator'));
+
+-- Hidden reviews are left out as well; moderators see them in the table
+CREATE OR REPLACE VIEW public.public_reviews WITH (security_barrier) AS
+SELECT
+  r.id,
+  r.post_id,
+  CASE WHEN r.is_anonymous THEN NULL ELSE r.reviewer_id END AS reviewer_id,
+  r.confidence_score,
+  r.style_score,
+  r.approachability_score,
+  r.image_scores,
+  r.comparisons,
+  r.answers,
+  r.general_feedback,
+  r.is_anonymous,
+  r.is_hidden,
+  r.is_helpful,
+  r.created_at,
+  CASE WHEN r.is_anonymous THEN NULL ELSE pr.username END AS reviewer_username,
+  CASE WHEN r.is_anonymous THEN NULL ELSE pr.avatar_url END AS reviewer_avatar_url
+FROM reviews r
+LEFT JOIN profiles pr ON pr.id = r.reviewer_id
+WHERE NOT r.is_hidden;
+
+GRANT SELECT ON public.public_reviews TO anon, authenticated;
+`;
+
+export default anonymousReviews;
@@ -0,0 +1,74 @@
+const ownershipPolicies = `-- Ownership policies
+-- Replaces the open policies from 0002 and 0003. Users write only their own
+-- profile and posts, and only the columns the app edits: balances, counters
+-- and aggregates belong to the database. Storage writes are limited to the
+-- user's own folder, <user id>/ for post photos and avatars/<user id>/ for
+-- avatars. Admins keep access to everything.
+DROP POLICY IF EXISTS "Users update own" ON public.profiles;
+CREATE POLICY "Users update own" ON public.profiles
+  FOR UPDATE USING (auth.uid() = id OR has_role('admin')) WITH CHECK (auth.uid() = id OR has_role('admin'));
+DROP POLICY IF EXISTS "Public insert" ON public.profiles;
+DROP POLICY IF EXISTS "Users insert own" ON public.profiles;
+CREATE POLICY "Users insert own" ON public.profiles
+  FOR INSERT WITH CHECK (auth.uid() = id OR has_role('admin'));
+
+-- Column privileges: an upsert sends id along, and role stays behind the
+-- profiles_guard_role trigger
+REVOKE INSERT, UPDATE ON public.profiles FROM anon, authenticated;
+GRANT INSERT (id, username, avatar_url, interests, review_anonymously, role) ON public.profiles TO authenticated;
+GRANT UPDATE (id, username, avatar_url, interests, review_anonymously, role, updated_at) ON public.profiles TO authenticated;
+
+DROP POLICY IF EXISTS "Public insert posts" ON public.posts;
+DROP POLICY IF EXISTS "Owners and admins insert posts" ON public.posts;
+CREATE POLICY "Owners and admins insert posts" ON public.posts
+  FOR INSERT WITH CHECK (auth.uid() = user_id OR has_role('admin'));
+DROP POLICY IF EXISTS "Owners and admins update posts" ON public.posts;
+CREATE POLICY "Owners and admins update posts" ON public.posts
+  FOR UPDATE USING (auth.uid() = user_id OR has_role('admin')) WITH CHECK (auth.uid() = user_id OR has_role('admin'));
+
+REVOKE INSERT, UPDATE ON public.posts FROM anon, authenticated;
+GRANT INSERT (user_id, post_type, categories, image_urls, thumbnail_urls, questions, status, reviews_required) ON public.posts TO authenticated;
+GRANT UPDATE (status, categories, questions, image_urls, thumbnail_urls) ON public.posts TO authenticated;
+
+-- Owners may only publish a draft; going live costs credits, so every other
+-- status change runs through release_queued_posts, archive_post and
+-- extend_post
+CREATE OR REPLACE FUNCTION guard_post_update()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT (OLD.status = 'draft' AND NEW.status = 'locked')
+    AND current_user IN ('anon', 'authenticated') AND NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can change a post status directly' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_guard_update ON public.posts;
+CREATE TRIGGER posts_guard_update
+  BEFORE UPDATE OF status ON public.posts FOR EACH ROW EXECUTE FUNCTION guard_post_update();
+
+-- True when the signed-in user may write this object in the photos bucket
+CREATE OR REPLACE FUNCTION owns_photo_path(object_name text)
+RETURNS boolean AS $$
+  SELECT auth.uid() IS NOT NULL AND (
+    (storage.foldername(object_name))[1] = auth.uid()::text
+    OR ((storage.foldername(object_name))[1] = 'avatars' AND (storage.foldername(object_name))[2] = auth.uid()::text)
+  );
+$$ LANGUAGE sql STABLE;
+
+DROP POLICY IF EXISTS "Public Storage Insert" ON storage.objects;
+DROP POLICY IF EXISTS "Public Storage All" ON storage.objects;
+DROP POLICY IF EXISTS "Owners upload photos" ON storage.objects;
+CREATE POLICY "Owners upload photos" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'photos' AND owns_photo_path(name));
+DROP POLICY IF EXISTS "Owners update photos" ON storage.objects;
+CREATE POLICY "Owners update photos" ON storage.objects
+  FOR UPDATE USING (bucket_id = 'photos' AND owns_photo_path(name)) WITH CHECK (bucket_id = 'photos' AND owns_photo_path(name));
+DROP POLICY IF EXISTS "Owners and admins delete photos" ON storage.objects;
+CREATE POLICY "Owners and admins delete photos" ON storage.objects
+  FOR DELETE USING (bucket_id = 'photos' AND (owns_photo_path(name) OR has_role('admin')));
+`;
+
+export default ownershipPolicies;
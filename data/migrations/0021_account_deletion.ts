@@ -0,0 +1,140 @@
+const accountDeletion = `-- Account deletion
+-- Users schedule their own deletion and can cancel it until the grace period
+-- runs out. purge_account then deletes the auth user, which cascades to the
+-- profile, posts, reviews on those posts and credit ledger. Reviews the user
+-- wrote on other people's posts are deleted or kept as anonymous reviews
+-- without a reviewer, as the user chose. Storage objects must be deleted
+-- through the Storage API, so the client lists them with list_account_photos
+-- before purging and removes them afterwards.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS deletion_requested_at timestamp with time zone;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS keep_reviews_on_deletion boolean DEFAULT true;
+
+ALTER TABLE public.reviews ALTER COLUMN reviewer_id DROP NOT NULL;
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_reviewer_id_fkey;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_reviewer_id_fkey
+  FOREIGN KEY (reviewer_id) REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Replaces the 0008_credit_ledger version: reviews kept from a deleted
+-- account have no reviewer left to pay, so they are marked without a bonus
+CREATE OR REPLACE FUNCTION mark_review_helpful(review_id_input uuid)
+RETURNS void AS $$
+DECLARE
+  target record;
+BEGIN
+  SELECT r.id, r.post_id, r.reviewer_id, r.is_helpful, p.user_id AS owner_id INTO target
+  FROM reviews r JOIN posts p ON p.id = r.post_id
+  WHERE r.id = review_id_input
+  FOR UPDATE OF r;
+
+  IF target.id IS NULL THEN RAISE EXCEPTION 'Review not found'; END IF;
+  IF target.owner_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the post owner can mark a review as helpful' USING ERRCODE = '42501';
+  END IF;
+  IF target.is_helpful THEN RETURN; END IF;
+
+  UPDATE reviews SET is_helpful = true WHERE id = target.id;
+  IF target.reviewer_id IS NOT NULL THEN
+    INSERT INTO credit_ledger (user_id, amount, kind, post_id, review_id)
+    VALUES (target.reviewer_id, 1, 'helpful_bonus', target.post_id, target.id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep in sync with ACCOUNT_DELETION in types.ts
+CREATE OR REPLACE FUNCTION account_deletion_grace()
+RETURNS interval AS $$
+  SELECT interval '7 days';
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION request_account_deletion(keep_reviews boolean)
+RETURNS void AS $$
+BEGIN
+  UPDATE profiles
+  SET deletion_requested_at = now(), keep_reviews_on_deletion = coalesce(keep_reviews, true)
+  WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sign in to delete your account' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cancel_account_deletion()
+RETURNS void AS $$
+BEGIN
+  UPDATE profiles SET deletion_requested_at = NULL WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin only: accounts whose grace period has run out
+CREATE OR REPLACE FUNCTION list_due_account_deletions()
+RETURNS SETOF uuid AS $$
+BEGIN
+  IF NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can list due account deletions' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT id FROM profiles
+  WHERE deletion_requested_at <= now() - account_deletion_grace()
+  ORDER BY deletion_requested_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Every object under the account's folders: <user id>/ and avatars/<user id>/
+CREATE OR REPLACE FUNCTION list_account_photos(user_id_input uuid)
+RETURNS SETOF text AS $$
+BEGIN
+  IF user_id_input IS DISTINCT FROM auth.uid() AND NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only the account owner or an admin can list its photos' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'photos'
+    AND ((storage.foldername(o.name))[1] = user_id_input::text
+      OR ((storage.foldername(o.name))[1] = 'avatars' AND (storage.foldername(o.name))[2] = user_id_input::text));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- The account owner or an admin, once the grace period is over
+CREATE OR REPLACE FUNCTION purge_account(user_id_input uuid)
+RETURNS void AS $$
+DECLARE
+  target public.profiles;
+BEGIN
+  IF user_id_input IS DISTINCT FROM auth.uid() AND NOT has_role('admin') THEN
+    RAISE EXCEPTION 'Only the account owner or an admin can delete an account' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target FROM profiles WHERE id = user_id_input FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF target.deletion_requested_at IS NULL OR target.deletion_requested_at > now() - account_deletion_grace() THEN
+    RAISE EXCEPTION 'This account is not due for deletion' USING ERRCODE = '55000';
+  END IF;
+
+  IF target.keep_reviews_on_deletion THEN
+    -- reviewer_id is cleared by ON DELETE SET NULL below
+    UPDATE reviews SET is_anonymous = true WHERE reviewer_id = user_id_input;
+  ELSE
+    -- Those posts are short a review again, and reopen if they had completed
+    UPDATE posts p
+    SET reviews_received = greatest(p.reviews_received - r.removed, 0),
+        status = CASE WHEN p.status = 'completed' THEN 'live' ELSE p.status END
+    FROM (
+      SELECT post_id, count(*)::int AS removed FROM reviews
+      WHERE reviewer_id = user_id_input
+      GROUP BY post_id
+    ) r
+    WHERE p.id = r.post_id AND p.user_id <> user_id_input;
+    DELETE FROM reviews WHERE reviewer_id = user_id_input;
+  END IF;
+
+  DELETE FROM auth.users WHERE id = user_id_input;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+`;
+
+export default accountDeletion;
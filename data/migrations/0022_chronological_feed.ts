@@ -0,0 +1,60 @@
+const chronologicalFeed = `-- Chronological feed
+-- The Newest and Oldest feeds used to leave out reviewed and skipped posts
+-- by listing their ids in the request URL, which grows with every review.
+-- chronological_feed does the exclusion in the database, like ranked_feed,
+-- and takes skipped posts as a uuid[] in the request body.
+
+-- Live posts the signed-in user may still review, narrowed by the feed
+-- filters. A single SELECT, so the planner inlines it and keeps using
+-- posts_feed_idx.
+CREATE OR REPLACE FUNCTION feed_candidates(
+  categories text[] DEFAULT NULL,
+  has_questions boolean DEFAULT NULL,
+  max_reviews_remaining int DEFAULT NULL,
+  exclude_ids uuid[] DEFAULT '{}'
+)
+RETURNS SETOF public.posts AS $$
+  SELECT p.*
+  FROM posts p
+  WHERE p.status = 'live'
+    AND p.user_id <> auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.post_id = p.id AND r.reviewer_id = auth.uid())
+    AND (feed_candidates.categories IS NULL OR p.categories && feed_candidates.categories)
+    AND (feed_candidates.has_questions IS NULL OR (coalesce(cardinality(p.questions), 0) > 0) = feed_candidates.has_questions)
+    AND (feed_candidates.max_reviews_remaining IS NULL OR p.reviews_remaining <= feed_candidates.max_reviews_remaining)
+    AND NOT (p.id = ANY(coalesce(feed_candidates.exclude_ids, '{}')));
+$$ LANGUAGE sql STABLE;
+
+-- One page by (created_at, id), newest first unless oldest_first
+CREATE OR REPLACE FUNCTION chronological_feed(
+  oldest_first boolean DEFAULT false,
+  after_created_at timestamp with time zone DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size int DEFAULT 20,
+  categories text[] DEFAULT NULL,
+  has_questions boolean DEFAULT NULL,
+  max_reviews_remaining int DEFAULT NULL,
+  exclude_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (post_id uuid) AS $$
+BEGIN
+  IF oldest_first THEN
+    RETURN QUERY
+    SELECT c.id
+    FROM feed_candidates(categories, has_questions, max_reviews_remaining, exclude_ids) c
+    WHERE after_created_at IS NULL OR (c.created_at, c.id) > (after_created_at, after_id)
+    ORDER BY c.created_at, c.id
+    LIMIT page_size;
+  ELSE
+    RETURN QUERY
+    SELECT c.id
+    FROM feed_candidates(categories, has_questions, max_reviews_remaining, exclude_ids) c
+    WHERE after_created_at IS NULL OR (c.created_at, c.id) < (after_created_at, after_id)
+    ORDER BY c.created_at DESC, c.id DESC
+    LIMIT page_size;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+`;
+
+export default chronologicalFeed;
@@ -0,0 +1,11 @@
+const postVisibility = `-- Post visibility
+-- Replaces the open read policy from 0002. Anyone may read live posts, the
+-- ones in the feed; drafts, queued, completed and archived posts are visible
+-- only to their owner and to moderators and admins.
+DROP POLICY IF EXISTS "Public view posts" ON public.posts;
+DROP POLICY IF EXISTS "Live posts, owners and moderators view posts" ON public.posts;
+CREATE POLICY "Live posts, owners and moderators view posts" ON public.posts
+  FOR SELECT USING (status = 'live' OR auth.uid() = user_id OR has_role('moderator'));
+`;
+
+export default postVisibility;
@@ -0,0 +1,32 @@
+const receivedReviews = `-- Received reviews
+-- Every review on the signed-in user's posts for their data export, hidden
+-- ones included. Anonymous reviews lose their reviewer exactly as in
+-- public_reviews, whose row type this returns.
+CREATE OR REPLACE FUNCTION list_received_reviews()
+RETURNS SETOF public.public_reviews AS $$
+  SELECT
+    r.id,
+    r.post_id,
+    CASE WHEN r.is_anonymous THEN NULL ELSE r.reviewer_id END,
+    r.confidence_score,
+    r.style_score,
+    r.approachability_score,
+    r.image_scores,
+    r.comparisons,
+    r.answers,
+    r.general_feedback,
+    r.is_anonymous,
+    r.is_hidden,
+    r.is_helpful,
+    r.created_at,
+    CASE WHEN r.is_anonymous THEN NULL ELSE pr.username END,
+    CASE WHEN r.is_anonymous THEN NULL ELSE pr.avatar_url END
+  FROM reviews r
+  JOIN posts p ON p.id = r.post_id
+  LEFT JOIN profiles pr ON pr.id = r.reviewer_id
+  WHERE p.user_id = auth.uid()
+  ORDER BY r.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+`;
+
+export default receivedReviews;
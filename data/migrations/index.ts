@@ -0,0 +1,87 @@
+import initialSchema from './0001_initial_schema';
+import rowLevelSecurity from './0002_row_level_security';
+import photoStorage from './0003_photo_storage';
+import reviewCounter from './0004_review_counter';
+import scoreAggregation from './0005_score_aggregation';
+import perImageScores from './0006_per_image_scores';
+import comparisonPosts from './0007_comparison_posts';
+import creditLedger from './0008_credit_ledger';
+import uniqueReviews from './0009_unique_reviews';
+import submitReview from './0010_submit_review';
+import postLifecycle from './0011_post_lifecycle';
+import roles from './0012_roles';
+import photoThumbnails from './0013_photo_thumbnails';
+import orphanedPhotos from './0014_orphaned_photos';
+import feedIndex from './0015_feed_index';
+import rankedFeed from './0016_ranked_feed';
+import feedFilters from './0017_feed_filters';
+import profileSettings from './0018_profile_settings';
+import anonymousReviews from './0019_anonymous_reviews';
+import ownershipPolicies from './0020_ownership_policies';
+import accountDeletion from './0021_account_deletion';
+import chronologicalFeed from './0022_chronological_feed';
+import postVisibility from './0023_post_visibility';
+import receivedReviews from './0024_received_reviews';
+
+export interface Migration {
+  // Zero-padded, so string order is apply order, e.g. '0005'
+  version: string;
+  name: string;
+  sql: string;
+}
+
+// Apply order. Add new migrations at the end; never edit one that has shipped.
+export const MIGRATIONS: Migration[] = [
+  { version: '0001', name: 'initial_schema', sql: initialSchema },
+  { version: '0002', name: 'row_level_security', sql: rowLevelSecurity },
+  { version: '0003', name: 'photo_storage', sql: photoStorage },
+  { version: '0004', name: 'review_counter', sql: reviewCounter },
+  { version: '0005', name: 'score_aggregation', sql: scoreAggregation },
+  { version: '0006', name: 'per_image_scores', sql: perImageScores },
+  { version: '0007', name: 'comparison_posts', sql: comparisonPosts },
+  { version: '0008', name: 'credit_ledger', sql: creditLedger },
+  { version: '0009', name: 'unique_reviews', sql: uniqueReviews },
+  { version: '0010', name: 'submit_review', sql: submitReview },
+  { version: '0011', name: 'post_lifecycle', sql: postLifecycle },
+  { version: '0012', name: 'roles', sql: roles },
+  { version: '0013', name: 'photo_thumbnails', sql: photoThumbnails },
+  { version: '0014', name: 'orphaned_photos', sql: orphanedPhotos },
+  { version: '0015', name: 'feed_index', sql: feedIndex },
+  { version: '0016', name: 'ranked_feed', sql: rankedFeed },
+  { version: '0017', name: 'feed_filters', sql: feedFilters },
+  { version: '0018', name: 'profile_settings', sql: profileSettings },
+  { version: '0019', name: 'anonymous_reviews', sql: anonymousReviews },
+  { version: '0020', name: 'ownership_policies', sql: ownershipPolicies },
+  { version: '0021', name: 'account_deletion', sql: accountDeletion },
+  { version: '0022', name: 'chronological_feed', sql: chronologicalFeed },
+  { version: '0023', name: 'post_visibility', sql: postVisibility },
+  { version: '0024', name: 'received_reviews', sql: receivedReviews }
+];
+
+export const pendingMigrations = (applied: string[]) =>
+  MIGRATIONS.filter(migration => !applied.includes(migration.version));
+
+const VERSION_TABLE = `CREATE TABLE IF NOT EXISTS public.schema_migrations (
+  version text PRIMARY KEY,
+  name text NOT NULL,
+  applied_at timestamp with time zone DEFAULT now()
+);
+ALTER TABLE public.schema_migrations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public view migrations" ON public.schema_migrations;
+CREATE POLICY "Public view migrations" ON public.schema_migrations FOR SELECT USING (true);`;
+
+// A single transaction that applies and records the given migrations, so a
+// failure leaves the schema exactly as it was. Every migration is safe to
+// re-run, which is how installs set up before versioning catch up: they
+// have no version table yet and simply run the lot.
+export const buildMigrationScript = (pending: Migration[]) => [
+  "-- Paste this into your Supabase SQL Editor and click 'Run'",
+  'BEGIN;',
+  VERSION_TABLE,
+  ...pending.map(({ version, name, sql }) => [
+    `-- ${version}_${name}`,
+    sql.trim(),
+    `INSERT INTO public.schema_migrations (version, name) VALUES ('${version}', '${name}') ON CONFLICT (version) DO NOTHING;`
+  ].join('\n')),
+  'COMMIT;'
+].join('\n\n');
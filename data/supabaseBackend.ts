@@ -0,0 +1,326 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Post, Review } from '../types';
+import { DataBackend, UPLOAD_ABORTED, UploadOptions } from './backend';
+import { DataError, toDataError } from './errors';
+
+const PHOTO_BUCKET = 'photos';
+
+// A row of the public_reviews view, which flattens the reviewer's profile
+// and blanks it, with reviewer_id, on anonymous reviews
+type PublicReviewRow = Omit<Review, 'profiles'> & {
+  reviewer_username: string | null;
+  reviewer_avatar_url: string | null;
+};
+
+const fromPublicRow = ({ reviewer_username, reviewer_avatar_url, ...review }: PublicReviewRow): Review => ({
+  ...review,
+  profiles: reviewer_username ? { username: reviewer_username, avatar_url: reviewer_avatar_url ?? undefined } : undefined
+});
+
+// Unwraps a `{ data, error }` response, rethrowing the error as a DataError
+const unwrap = <T>({ data, error }: { data: T; error: any }): T => {
+  if (error) throw toDataError(error);
+  return data;
+};
+
+// supabase-js cannot report upload progress, so the bytes go to a signed
+// upload URL through XMLHttpRequest instead
+const putWithProgress = (url: string, file: Blob, { onProgress, signal }: UploadOptions) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DataError('Upload cancelled', UPLOAD_ABORTED));
+    const request = new XMLHttpRequest();
+    request.open('PUT', url);
+    request.setRequestHeader('content-type', file.type || 'application/octet-stream');
+    request.setRequestHeader('x-upsert', 'false');
+    request.upload.onprogress = (e) => onProgress?.(e.loaded, e.total);
+    request.onload = () => {
+      if (request.status < 400) return resolve();
+      let message = request.statusText || 'Upload failed';
+      try {
+        message = JSON.parse(request.responseText).message || message;
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new DataError(message, String(request.status)));
+    };
+    request.onerror = () => reject(new DataError('Network error during upload'));
+    request.onabort = () => reject(new DataError('Upload cancelled', UPLOAD_ABORTED));
+    signal?.addEventListener('abort', () => request.abort(), { once: true });
+    request.send(file);
+  });
+
+export const createSupabaseBackend = (client: SupabaseClient): DataBackend => ({
+  kind: 'supabase',
+
+  auth: {
+    getSession: async () => {
+      const { session } = unwrap(await client.auth.getSession());
+      return session ? { user: { id: session.user.id, email: session.user.email } } : null;
+    },
+    getUser: async () => {
+      const { data: { user } } = await client.auth.getUser();
+      return user ? { id: user.id, email: user.email } : null;
+    },
+    signUp: async ({ email, password, username }) => {
+      const data = unwrap(await client.auth.signUp({
+        email,
+        password,
+        options: { data: { username } }
+      }));
+      return { needsConfirmation: !data.session };
+    },
+    signIn: async (email, password) => {
+      unwrap(await client.auth.signInWithPassword({ email, password }));
+    },
+    signOut: async () => {
+      const { error } = await client.auth.signOut();
+      if (error) throw toDataError(error);
+    },
+    onAuthStateChange: (listener) => {
+      const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => {
+        listener(session ? { user: { id: session.user.id, email: session.user.email } } : null);
+      });
+      return () => subscription.unsubscribe();
+    }
+  },
+
+  profiles: {
+    get: async (id) => {
+      const { data, error } = await client.from('profiles').select('*').eq('id', id).single();
+      if (error) {
+        // PGRST116: `.single()` matched no rows
+        if (error.code === 'PGRST116') return null;
+        throw toDataError(error);
+      }
+      return data;
+    },
+    upsert: async (profile) => {
+      return unwrap(await client.from('profiles').upsert(profile).select().single());
+    },
+    update: async (id, patch) => {
+      unwrap(await client.from('profiles').update(patch).eq('id', id));
+    },
+    isUsernameTaken: async (username, exceptId) => {
+      // ilike without wildcards is a case-insensitive equality check
+      const { count, error } = await client
+        .from('profiles')
+        .select('id', { count: 'exact', head: true })
+        .ilike('username', username.replace(/[\\%_]/g, '\\$&'))
+        .neq('id', exceptId);
+      if (error) throw toDataError(error);
+      return (count || 0) > 0;
+    }
+  },
+
+  posts: {
+    listFeed: async ({ categories, hasQuestions, maxReviewsRemaining, excludeIds = [], order = 'newest', limit, after }) => {
+      // chronological_feed reads the signed-in user, which is always the viewer
+      const ids: { post_id: string }[] = unwrap(await client.rpc('chronological_feed', {
+        oldest_first: order === 'oldest',
+        after_created_at: after?.created_at ?? null,
+        after_id: after?.id ?? null,
+        page_size: limit,
+        categories: categories && categories.length > 0 ? categories : null,
+        has_questions: hasQuestions ?? null,
+        max_reviews_remaining: maxReviewsRemaining ?? null,
+        exclude_ids: excludeIds
+      })) || [];
+      if (ids.length === 0) return [];
+
+      const posts: Post[] = unwrap(await client
+        .from('posts')
+        .select('*, profiles(username, avatar_url)')
+        .in('id', ids.map(r => r.post_id))) || [];
+      const byId = new Map(posts.map(post => [post.id, post]));
+      return ids.filter(r => byId.has(r.post_id)).map(r => byId.get(r.post_id)!);
+    },
+    listRanked: async ({ interests, rankedAt, categories, hasQuestions, maxReviewsRemaining, excludeIds = [], limit, after }) => {
+      // ranked_feed scores as the signed-in user, which is always the viewer
+      const ranked: { post_id: string; rank_score: number }[] = unwrap(await client.rpc('ranked_feed', {
+        interests,
+        ranked_at: rankedAt,
+        categories: categories && categories.length > 0 ? categories : null,
+        has_questions: hasQuestions ?? null,
+        max_reviews_remaining: maxReviewsRemaining ?? null,
+        exclude_ids: excludeIds,
+        after_score: after?.rank_score ?? null,
+        after_id: after?.id ?? null,
+        page_size: limit
+      })) || [];
+      if (ranked.length === 0) return [];
+
+      const posts: Post[] = unwrap(await client
+        .from('posts')
+        .select('*, profiles(username, avatar_url)')
+        .in('id', ranked.map(r => r.post_id))) || [];
+      const byId = new Map(posts.map(post => [post.id, post]));
+      return ranked
+        .filter(r => byId.has(r.post_id))
+        .map(r => ({ ...byId.get(r.post_id)!, rank_score: Number(r.rank_score) }));
+    },
+    listByUser: async (userId) => {
+      return unwrap(await client
+        .from('posts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })) || [];
+    },
+    listAll: async () => {
+      return unwrap(await client
+        .from('posts')
+        .select('*, profiles(username, avatar_url)')
+        .order('created_at', { ascending: false })) || [];
+    },
+    get: async (id) => {
+      const { data, error } = await client.from('posts').select('*, profiles(username, avatar_url)').eq('id', id).single();
+      if (error) {
+        if (error.code === 'PGRST116') return null;
+        throw toDataError(error);
+      }
+      return data;
+    },
+    create: async (post) => {
+      return unwrap(await client.from('posts').insert([post]).select().single());
+    },
+    update: async (id, patch) => {
+      unwrap(await client.from('posts').update(patch).eq('id', id));
+    },
+    remove: async (id) => {
+      unwrap(await client.from('posts').delete().eq('id', id));
+    },
+    archive: async (id) => {
+      unwrap(await client.rpc('archive_post', { post_id_input: id }));
+    },
+    extend: async (id, extraReviews) => {
+      unwrap(await client.rpc('extend_post', { post_id_input: id, extra_reviews: extraReviews }));
+    }
+  },
+
+  reviews: {
+    listForPosts: async (postIds) => {
+      if (postIds.length === 0) return [];
+      const rows: PublicReviewRow[] = unwrap(await client
+        .from('public_reviews')
+        .select('*')
+        .in('post_id', postIds)
+        .order('created_at', { ascending: false })) || [];
+      return rows.map(fromPublicRow);
+    },
+    listReceived: async () => {
+      const rows: PublicReviewRow[] = unwrap(await client.rpc('list_received_reviews')) || [];
+      return rows.map(fromPublicRow);
+    },
+    listRecent: async (limit) => {
+      return unwrap(await client
+        .from('reviews')
+        .select('*, profiles(username, avatar_url)')
+        .order('created_at', { ascending: false })
+        .limit(limit)) || [];
+    },
+    listByReviewer: async (reviewerId) => {
+      return unwrap(await client
+        .from('reviews')
+        .select('*')
+        .eq('reviewer_id', reviewerId)
+        .order('created_at', { ascending: false })) || [];
+    },
+    hasReviewed: async (postId, reviewerId) => {
+      const { count, error } = await client
+        .from('reviews')
+        .select('id', { count: 'exact', head: true })
+        .eq('post_id', postId)
+        .eq('reviewer_id', reviewerId);
+      if (error) throw toDataError(error);
+      return (count || 0) > 0;
+    },
+    submit: async (review) => {
+      return unwrap(await client.rpc('submit_review', { review_input: review }));
+    },
+    setHidden: async (id, hidden) => {
+      unwrap(await client.rpc('set_review_hidden', { review_id_input: id, hidden_input: hidden }));
+    }
+  },
+
+  credits: {
+    listLedger: async (userId) => {
+      return unwrap(await client
+        .from('credit_ledger')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })) || [];
+    },
+    markHelpful: async (reviewId) => {
+      unwrap(await client.rpc('mark_review_helpful', { review_id_input: reviewId }));
+    },
+    grant: async (userId, amount) => {
+      unwrap(await client.rpc('admin_grant_credits', { user_id_input: userId, amount_input: amount }));
+    }
+  },
+
+  accounts: {
+    requestDeletion: async (keepReviews) => {
+      unwrap(await client.rpc('request_account_deletion', { keep_reviews: keepReviews }));
+    },
+    cancelDeletion: async () => {
+      unwrap(await client.rpc('cancel_account_deletion'));
+    },
+    listDueDeletions: async () => {
+      return unwrap(await client.rpc('list_due_account_deletions')) || [];
+    },
+    purge: async (userId) => {
+      unwrap(await client.rpc('purge_account', { user_id_input: userId }));
+    }
+  },
+
+  photos: {
+    upload: async (path, file, options = {}) => {
+      const { data, error } = await client.storage.from(PHOTO_BUCKET).createSignedUploadUrl(path);
+      // Same coding as the upload itself: HTTP status, or none for network
+      // failures, which storage reports as a StorageError without one
+      if (error) throw new DataError(error.message, error.status ? String(error.status) : undefined);
+      await putWithProgress(data.signedUrl, file, options);
+      const { data: { publicUrl } } = client.storage.from(PHOTO_BUCKET).getPublicUrl(path);
+      if (!publicUrl) throw new DataError(`Could not resolve a public URL for ${path}`);
+      return publicUrl;
+    },
+    remove: async (paths) => {
+      if (paths.length === 0) return;
+      unwrap(await client.storage.from(PHOTO_BUCKET).remove(paths));
+    },
+    pathOf: (publicUrl) => {
+      const marker = `/storage/v1/object/public/${PHOTO_BUCKET}/`;
+      const at = publicUrl.indexOf(marker);
+      return at === -1 ? null : decodeURIComponent(publicUrl.slice(at + marker.length).split('?')[0]);
+    },
+    probeBucket: async () => {
+      unwrap(await client.storage.from(PHOTO_BUCKET).list('', { limit: 1 }));
+    },
+    listOrphans: async () => {
+      return unwrap(await client.rpc('list_orphaned_photos')) || [];
+    },
+    listForAccount: async (userId) => {
+      return unwrap(await client.rpc('list_account_photos', { user_id_input: userId })) || [];
+    }
+  },
+
+  schema: {
+    listAppliedMigrations: async () => {
+      const { data, error } = await client.from('schema_migrations').select('version');
+      if (error) {
+        // Fresh projects and installs from before versioning have no table yet
+        if (error.code === '42P01' || error.code === 'PGRST205') return [];
+        throw toDataError(error);
+      }
+      return (data || []).map(row => row.version);
+    },
+    probeColumns: async (table, columns) => {
+      unwrap(await client.from(table).select(columns.join(',')).limit(0));
+    },
+    hasFunction: async (name, args) => {
+      // GET requests run in a read-only transaction
+      const { error } = await client.rpc(name, args, { get: true });
+      // PGRST202: not in the schema cache, 42883: undefined function
+      return !error || (error.code !== 'PGRST202' && error.code !== '42883');
+    }
+  }
+});
@@ -0,0 +1,29 @@
+import { backend } from '../data';
+import { ACCOUNT_DELETION, Profile } from '../types';
+import { removeInBatches } from './uploads';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a scheduled deletion takes effect, or null when none is scheduled
+export const deletionDate = (profile: Profile): Date | null =>
+  profile.deletion_requested_at
+    ? new Date(new Date(profile.deletion_requested_at).getTime() + ACCOUNT_DELETION.graceDays * DAY_MS)
+    : null;
+
+export const isDeletionDue = (profile: Profile) => {
+  const date = deletionDate(profile);
+  return !!date && date.getTime() <= Date.now();
+};
+
+// Deletes the account's rows, then its photos. The rows go first, like
+// deletePostWithPhotos, so a failed storage cleanup only leaves files for the
+// orphan sweep; the paths are listed beforehand while the account exists.
+export const purgeAccount = async (userId: string) => {
+  const paths = await backend.photos.listForAccount(userId);
+  await backend.accounts.purge(userId);
+  try {
+    await removeInBatches(paths);
+  } catch (err) {
+    console.error("Account photo cleanup error:", err);
+  }
+};
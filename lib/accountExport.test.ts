@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Profile, REVIEW_LIMITS } from '../types';
+import { DEMO_CREDENTIALS } from '../data/memoryBackend';
+import { backend } from '../data';
+import { ExportManifest, exportAccount } from './accountExport';
+
+// data/index.ts picks a backend from the page URL, so the module is replaced
+vi.mock('../data', async () => ({
+  backend: (await vi.importActual<typeof import('../data/memoryBackend')>('../data/memoryBackend')).createMemoryBackend()
+}));
+
+// Reads a stored-only archive back through its central directory
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  const files = new Map<string, Uint8Array>();
+
+  for (let at = view.getUint32(end + 16, true); at < end;) {
+    const nameLength = view.getUint16(at + 28, true);
+    const size = view.getUint32(at + 24, true);
+    const offset = view.getUint32(at + 42, true);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    files.set(decoder.decode(bytes.slice(at + 46, at + 46 + nameLength)), bytes.slice(dataStart, dataStart + size));
+    at += 46 + nameLength;
+  }
+  return { files, text: (path: string) => decoder.decode(files.get(path)) };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('exportAccount', () => {
+  it('bundles the manifest, summary and photos, listing downloads that failed', async () => {
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    const owner = (await backend.auth.getUser())!;
+    const post = await backend.posts.create({
+      user_id: owner.id,
+      post_type: 'rating',
+      categories: ['Social'],
+      image_urls: ['https://example.com/1.jpg', 'https://example.com/gone.jpg'],
+      thumbnail_urls: [],
+      questions: [],
+      status: 'live',
+      reviews_required: REVIEW_LIMITS.default
+    });
+
+    await backend.auth.signUp({ email: 'reviewer@example.com', password: 'secret123', username: 'reviewer' });
+    const reviewer = (await backend.auth.getUser())!;
+    await backend.profiles.upsert({ id: reviewer.id, username: 'reviewer', interests: [] });
+    const review = await backend.reviews.submit({
+      post_id: post.id,
+      confidence_score: 7,
+      style_score: 6,
+      approachability_score: 8,
+      image_scores: [],
+      comparisons: [],
+      answers: [],
+      general_feedback: 'Nice light',
+      is_anonymous: true
+    });
+
+    await backend.auth.signIn(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password);
+    await backend.reviews.setHidden(review.id, true);
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => url.endsWith('gone.jpg')
+      ? new Response(null, { status: 404 })
+      : new Response(new Blob(['jpeg'], { type: 'image/jpeg' }))));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const profile = (await backend.profiles.get(owner.id)) as Profile;
+    const progress = vi.fn();
+
+    const { files, text } = await readZip(await exportAccount(profile, progress));
+    expect([...files.keys()]).toEqual(['manifest.json', 'summary.txt', `posts/${post.id}/photo-1.jpg`]);
+    expect(text(`posts/${post.id}/photo-1.jpg`)).toBe('jpeg');
+    expect(progress).toHaveBeenLastCalledWith({ done: 2, total: 2 });
+
+    const manifest: ExportManifest = JSON.parse(text('manifest.json'));
+    const [exported] = manifest.posts;
+    expect(exported.images).toEqual([
+      { url: 'https://example.com/1.jpg', file: `posts/${post.id}/photo-1.jpg` },
+      { url: 'https://example.com/gone.jpg', file: null }
+    ]);
+    // Hidden by a moderator yet still the owner's data, and still anonymous
+    expect(exported.reviews).toHaveLength(1);
+    expect(exported.reviews[0]).toMatchObject({ id: review.id, is_hidden: true, reviewer_id: null, reviewer_username: null });
+
+    const summary = text('summary.txt');
+    expect(summary).toContain('Review by an anonymous reviewer');
+    expect(summary).toContain('hidden by a moderator');
+    expect(summary).toContain('FILES THAT COULD NOT BE DOWNLOADED\n  https://example.com/gone.jpg');
+    expect(summary).not.toContain('@reviewer');
+  });
+});
@@ -0,0 +1,221 @@
+import { backend } from '../data';
+import { CreditTransaction, Post, Profile, RATING_METRICS, Review } from '../types';
+import { POST_STATUS_LABELS } from './posts';
+import { CREDIT_KIND_LABELS } from './credits';
+import { formatScore, summarizeMetrics } from './stats';
+import { createZip, ZipEntry } from './zip';
+
+export const EXPORT_FORMAT = { name: 'lenscritique-account-export', version: 1 };
+
+export interface ExportProgress {
+  done: number;
+  total: number;
+}
+
+interface ExportedFile {
+  url: string;
+  // Path inside the archive; null when the download failed
+  file: string | null;
+}
+
+// Reviews others wrote on the user's posts, hidden ones included, as read
+// through list_received_reviews: anonymous ones carry no reviewer, so none
+// can end up in the archive
+interface ReceivedReview extends Omit<Review, 'profiles'> {
+  reviewer_username: string | null;
+}
+
+interface ExportedPost extends Omit<Post, 'profiles'> {
+  images: ExportedFile[];
+  reviews: ReceivedReview[];
+}
+
+export interface ExportManifest {
+  format: string;
+  version: number;
+  exported_at: string;
+  profile: Profile;
+  avatar: ExportedFile | null;
+  credit_ledger: CreditTransaction[];
+  posts: ExportedPost[];
+  reviews_written: Omit<Review, 'profiles'>[];
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif'
+};
+
+const extensionOf = (blob: Blob, url: string) => {
+  if (FILE_EXTENSIONS[blob.type]) return FILE_EXTENSIONS[blob.type];
+  try {
+    const match = new URL(url).pathname.match(/\.([a-z0-9]{2,5})$/i);
+    if (match) return match[1].toLowerCase();
+  } catch {
+    // Object URLs and other oddities have no usable path
+  }
+  return 'bin';
+};
+
+const download = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.blob();
+};
+
+const withoutJoin = <T extends { profiles?: unknown }>({ profiles, ...row }: T) => row;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const scoreLine = (review: Pick<Review, 'confidence_score' | 'style_score' | 'approachability_score'>) =>
+  RATING_METRICS
+    .filter(({ key }) => review[`${key}_score`] !== null)
+    .map(({ key, label }) => `${label} ${review[`${key}_score`]}`)
+    .join(', ');
+
+const reviewLines = (review: Omit<Review, 'profiles'>, questions: string[]) => {
+  const lines: string[] = [];
+  const scores = scoreLine(review);
+  if (scores) lines.push(`     Scores: ${scores}`);
+  if (review.comparisons.length > 0) {
+    lines.push(...review.comparisons.map(vote =>
+      `     Preferred photo ${vote.winner_index + 1} over photo ${vote.loser_index + 1}${vote.reason ? `: ${vote.reason}` : ''}`));
+  }
+  review.answers.forEach((answer, i) => {
+    if (answer) lines.push(`     ${questions[i] ? `${questions[i]} ` : ''}${answer}`);
+  });
+  lines.push(`     "${review.general_feedback}"`);
+  return lines;
+};
+
+// Human-readable counterpart of manifest.json
+const summaryText = (manifest: ExportManifest, missing: string[]) => {
+  const { profile } = manifest;
+  const lines = [
+    'LensCritique account export',
+    `Exported ${formatDate(manifest.exported_at)}`,
+    '',
+    'PROFILE',
+    `  Username: @${profile.username}`,
+    `  Interests: ${(profile.interests || []).join(', ') || 'none'}`,
+    `  Role: ${profile.role}`,
+    `  New reviews anonymous by default: ${profile.review_anonymously ? 'yes' : 'no'}`,
+    `  Avatar: ${manifest.avatar?.file ?? 'none'}`,
+    '',
+    'CREDITS',
+    `  Balance: ${profile.credit_balance}`,
+    ...manifest.credit_ledger.map(entry =>
+      `  ${formatDate(entry.created_at)}  ${entry.amount > 0 ? '+' : ''}${entry.amount}  ${CREDIT_KIND_LABELS[entry.kind]}`),
+    '',
+    `POSTS (${manifest.posts.length})`
+  ];
+
+  manifest.posts.forEach((post, i) => {
+    lines.push(
+      '',
+      `  ${i + 1}. ${post.post_type === 'comparison' ? 'Comparison' : 'Rating'} post, ${POST_STATUS_LABELS[post.status]}, created ${formatDate(post.created_at)}`,
+      `     Categories: ${post.categories.join(', ') || 'none'}`,
+      `     Photos: ${post.images.map(image => image.file ?? `${image.url} (not downloaded)`).join(', ') || 'none'}`,
+      `     Reviews: ${post.reviews_received} of ${post.reviews_required}`
+    );
+    if (post.post_type === 'rating' && post.score_count > 0) {
+      const averages = summarizeMetrics(post, post.score_count).map(m => `${m.label} ${formatScore(m.mean)}`);
+      lines.push(`     Averages: ${averages.join(', ')}`);
+    }
+    post.questions.forEach(question => lines.push(`     Question: ${question}`));
+    for (const review of post.reviews) {
+      const author = review.reviewer_username ? `@${review.reviewer_username}` : 'an anonymous reviewer';
+      lines.push('', `     Review by ${author}, ${formatDate(review.created_at)}` +
+        `${review.is_hidden ? ', hidden by a moderator' : ''}${review.is_helpful ? ', marked helpful' : ''}`);
+      lines.push(...reviewLines(review, post.questions));
+    }
+  });
+
+  lines.push('', `REVIEWS YOU WROTE (${manifest.reviews_written.length})`);
+  for (const review of manifest.reviews_written) {
+    lines.push(
+      '',
+      `  On post ${review.post_id}, ${formatDate(review.created_at)}, ${review.is_anonymous ? 'posted anonymously' : 'posted under your name'}` +
+        `${review.is_hidden ? ', hidden by a moderator' : ''}${review.is_helpful ? ', marked helpful' : ''}`
+    );
+    lines.push(...reviewLines(review, []));
+  }
+
+  if (missing.length > 0) {
+    lines.push('', 'FILES THAT COULD NOT BE DOWNLOADED', ...missing.map(url => `  ${url}`));
+  }
+  return lines.join('\n') + '\n';
+};
+
+// Bundles everything stored about the user into one ZIP: manifest.json,
+// summary.txt, the avatar and every post's original photos. Photos that
+// fail to download are listed in both files instead of failing the export.
+export const exportAccount = async (profile: Profile, onProgress?: (progress: ExportProgress) => void): Promise<Blob> => {
+  const [posts, reviewsWritten, reviewsReceived, ledger] = await Promise.all([
+    backend.posts.listByUser(profile.id),
+    backend.reviews.listByReviewer(profile.id),
+    backend.reviews.listReceived(),
+    backend.credits.listLedger(profile.id)
+  ]);
+
+  const entries: ZipEntry[] = [];
+  const missing: string[] = [];
+  const total = posts.reduce((count, post) => count + post.image_urls.length, profile.avatar_url ? 1 : 0);
+  let done = 0;
+  onProgress?.({ done, total });
+
+  const fetchFile = async (url: string, basePath: string): Promise<ExportedFile> => {
+    try {
+      const blob = await download(url);
+      const file = `${basePath}.${extensionOf(blob, url)}`;
+      entries.push({ path: file, data: blob });
+      return { url, file };
+    } catch (err) {
+      console.error("Export download error:", err);
+      missing.push(url);
+      return { url, file: null };
+    } finally {
+      onProgress?.({ done: ++done, total });
+    }
+  };
+
+  const avatar = profile.avatar_url ? await fetchFile(profile.avatar_url, 'avatar') : null;
+
+  const exportedPosts: ExportedPost[] = [];
+  for (const post of posts) {
+    const images: ExportedFile[] = [];
+    // One at a time, so large accounts don't flood storage with requests
+    for (const [i, url] of post.image_urls.entries()) {
+      images.push(await fetchFile(url, `posts/${post.id}/photo-${i + 1}`));
+    }
+    exportedPosts.push({
+      ...withoutJoin(post),
+      images,
+      reviews: reviewsReceived
+        .filter(review => review.post_id === post.id)
+        .map(review => ({ ...withoutJoin(review), reviewer_username: review.profiles?.username ?? null }))
+    });
+  }
+
+  const manifest: ExportManifest = {
+    format: EXPORT_FORMAT.name,
+    version: EXPORT_FORMAT.version,
+    exported_at: new Date().toISOString(),
+    profile,
+    avatar,
+    credit_ledger: ledger,
+    posts: exportedPosts,
+    reviews_written: reviewsWritten.map(withoutJoin)
+  };
+
+  return createZip([
+    { path: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    { path: 'summary.txt', data: summaryText(manifest, missing) },
+    ...entries
+  ]);
+};
+
+export const exportFileName = (profile: Profile, date = new Date()) =>
+  `lenscritique-${profile.username}-${date.toISOString().slice(0, 10)}.zip`;
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { CREDIT_RULES, REVIEW_LIMITS } from '../types';
+import { canAffordPost, postCost, reviewsNeededToPost } from './credits';
+
+describe('credits', () => {
+  it('charges per requested review', () => {
+    expect(postCost(REVIEW_LIMITS.max)).toBe(REVIEW_LIMITS.max * CREDIT_RULES.reviewCost);
+  });
+
+  it('counts the reviews still needed for the default post', () => {
+    const cost = postCost(REVIEW_LIMITS.default);
+    expect(reviewsNeededToPost(0)).toBe(Math.ceil(cost / CREDIT_RULES.reviewReward));
+    expect(reviewsNeededToPost(cost)).toBe(0);
+    expect(reviewsNeededToPost(cost + 5)).toBe(0);
+    expect(canAffordPost(cost - 1)).toBe(false);
+    expect(canAffordPost(cost)).toBe(true);
+  });
+});
@@ -0,0 +1,19 @@
+import { CREDIT_RULES, CreditKind, REVIEW_LIMITS } from '../types';
+
+export const CREDIT_KIND_LABELS: Record<CreditKind, string> = {
+  opening_balance: 'Carried over from unlock progress',
+  review_earned: 'Reviewed a post',
+  post_spent: 'Published a post',
+  post_extended: 'Extended a post',
+  helpful_bonus: 'Review marked helpful',
+  admin_grant: 'Granted by an admin'
+};
+
+export const postCost = (reviewsRequired: number) => reviewsRequired * CREDIT_RULES.reviewCost;
+
+// Reviews still needed before the balance covers one more post
+export const reviewsNeededToPost = (balance: number, reviewsRequired = REVIEW_LIMITS.default) =>
+  Math.max(0, Math.ceil((postCost(reviewsRequired) - balance) / CREDIT_RULES.reviewReward));
+
+export const canAffordPost = (balance: number, reviewsRequired = REVIEW_LIMITS.default) =>
+  balance >= postCost(reviewsRequired);
@@ -0,0 +1,154 @@
+import { backend, MIGRATIONS } from '../data';
+import { RATING_METRICS, REVIEW_LIMITS } from '../types';
+
+export type DiagnosticGroup = 'Tables' | 'Functions' | 'Storage' | 'Access';
+
+export interface DiagnosticResult {
+  id: string;
+  group: DiagnosticGroup;
+  label: string;
+  passed: boolean;
+  // The error behind a failure
+  detail?: string;
+  // What to do about a failure
+  remediation: string;
+}
+
+interface DiagnosticCheck {
+  id: string;
+  group: DiagnosticGroup;
+  label: string;
+  remediation: string;
+  // Rejects when the check fails
+  run: (userId: string) => Promise<void>;
+}
+
+export const DIAGNOSTIC_GROUPS: DiagnosticGroup[] = ['Tables', 'Functions', 'Storage', 'Access'];
+
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+const SCORE_SUM_COLUMNS = RATING_METRICS.flatMap(({ key }) => [`${key}_sum`, `${key}_sq_sum`]);
+
+const applyMigrations = (...versions: string[]) => {
+  const names = versions.map(version => `${version}_${MIGRATIONS.find(m => m.version === version)?.name}`);
+  return `Apply migration${names.length === 1 ? '' : 's'} ${names.join(' and ')} from Admin Panel > Schema Migrations.`;
+};
+
+// Every column the app reads, grouped by the migration that adds it
+const COLUMN_CHECKS: { table: string; columns: string[]; migration: string }[] = [
+  { table: 'profiles', columns: ['id', 'username', 'avatar_url', 'interests', 'total_confidence', 'total_style', 'total_approachability', 'review_count'], migration: '0001' },
+  { table: 'profiles', columns: SCORE_SUM_COLUMNS, migration: '0005' },
+  { table: 'profiles', columns: ['credit_balance'], migration: '0008' },
+  { table: 'profiles', columns: ['role'], migration: '0012' },
+  { table: 'profiles', columns: ['review_anonymously'], migration: '0018' },
+  { table: 'profiles', columns: ['deletion_requested_at', 'keep_reviews_on_deletion'], migration: '0021' },
+  { table: 'posts', columns: ['id', 'user_id', 'categories', 'image_urls', 'questions', 'reviews_required', 'reviews_received', 'created_at'], migration: '0001' },
+  { table: 'posts', columns: ['score_count', 'avg_confidence', 'avg_style', 'avg_approachability', ...SCORE_SUM_COLUMNS], migration: '0005' },
+  { table: 'posts', columns: ['post_type'], migration: '0007' },
+  { table: 'posts', columns: ['credits_spent'], migration: '0008' },
+  { table: 'posts', columns: ['status'], migration: '0011' },
+  { table: 'posts', columns: ['thumbnail_urls'], migration: '0013' },
+  { table: 'posts', columns: ['reviews_remaining'], migration: '0017' },
+  { table: 'reviews', columns: ['id', 'post_id', 'reviewer_id', 'confidence_score', 'style_score', 'approachability_score', 'answers', 'general_feedback', 'is_anonymous', 'created_at'], migration: '0001' },
+  { table: 'reviews', columns: ['is_hidden'], migration: '0005' },
+  { table: 'reviews', columns: ['image_scores'], migration: '0006' },
+  { table: 'reviews', columns: ['comparisons'], migration: '0007' },
+  { table: 'reviews', columns: ['is_helpful'], migration: '0008' },
+  { table: 'public_reviews', columns: ['reviewer_username', 'reviewer_avatar_url'], migration: '0019' },
+  { table: 'credit_ledger', columns: ['id', 'user_id', 'amount', 'kind', 'post_id', 'review_id', 'created_at'], migration: '0008' }
+];
+
+// Every function the app calls, with arguments that match no row
+const FUNCTION_CHECKS: { name: string; args: Record<string, unknown>; migration: string }[] = [
+  { name: 'submit_review', args: { review_input: '{}' }, migration: '0010' },
+  { name: 'extend_post', args: { post_id_input: NIL_UUID, extra_reviews: 0 }, migration: '0011' },
+  { name: 'archive_post', args: { post_id_input: NIL_UUID }, migration: '0012' },
+  { name: 'set_review_hidden', args: { review_id_input: NIL_UUID, hidden_input: false }, migration: '0012' },
+  { name: 'mark_review_helpful', args: { review_id_input: NIL_UUID }, migration: '0008' },
+  { name: 'admin_grant_credits', args: { user_id_input: NIL_UUID, amount_input: 0 }, migration: '0008' },
+  { name: 'list_orphaned_photos', args: {}, migration: '0014' },
+  { name: 'ranked_feed', args: { page_size: 0 }, migration: '0016' },
+  { name: 'chronological_feed', args: { page_size: 0 }, migration: '0022' },
+  { name: 'list_account_photos', args: { user_id_input: NIL_UUID }, migration: '0021' },
+  { name: 'purge_account', args: { user_id_input: NIL_UUID }, migration: '0021' },
+  { name: 'list_received_reviews', args: {}, migration: '0024' }
+];
+
+const CHECKS: DiagnosticCheck[] = [
+  ...COLUMN_CHECKS.map(({ table, columns, migration }): DiagnosticCheck => ({
+    id: `columns:${table}:${migration}`,
+    group: 'Tables',
+    label: `${table}: ${columns.join(', ')}`,
+    remediation: applyMigrations(migration),
+    run: () => backend.schema.probeColumns(table, columns)
+  })),
+  ...FUNCTION_CHECKS.map(({ name, args, migration }): DiagnosticCheck => ({
+    id: `function:${name}`,
+    group: 'Functions',
+    label: `${name}()`,
+    remediation: applyMigrations(migration),
+    run: async () => {
+      if (!(await backend.schema.hasFunction(name, args))) throw new Error(`Function ${name} does not exist`);
+    }
+  })),
+  {
+    id: 'storage:bucket',
+    group: 'Storage',
+    label: "The 'photos' bucket exists",
+    remediation: applyMigrations('0003'),
+    run: () => backend.photos.probeBucket()
+  },
+  {
+    id: 'access:profile',
+    group: 'Access',
+    label: 'Your profile can be read',
+    remediation: `${applyMigrations('0002')} If it still fails, sign out and back in to recreate the profile.`,
+    run: async (userId) => {
+      if (!(await backend.profiles.get(userId))) throw new Error('No profile row for the signed-in user');
+    }
+  },
+  {
+    id: 'access:photos',
+    group: 'Access',
+    label: 'You can upload and delete your own photos',
+    remediation: applyMigrations('0003', '0020'),
+    run: async (userId) => {
+      const path = `${userId}/diagnostics-${Date.now()}.txt`;
+      await backend.photos.upload(path, new Blob(['diagnostics'], { type: 'text/plain' }));
+      await backend.photos.remove([path]);
+    }
+  },
+  {
+    id: 'access:posts',
+    group: 'Access',
+    label: 'You can create and delete your own posts',
+    remediation: applyMigrations('0012', '0020'),
+    run: async (userId) => {
+      const draft = await backend.posts.create({
+        user_id: userId,
+        post_type: 'rating',
+        categories: [],
+        image_urls: [],
+        thumbnail_urls: [],
+        questions: [],
+        status: 'draft',
+        reviews_required: REVIEW_LIMITS.default
+      });
+      await backend.posts.remove(draft.id);
+      // Deletes filtered out by row-level security succeed without removing anything
+      if (await backend.posts.get(draft.id)) throw new Error(`Test draft ${draft.id} could not be deleted`);
+    }
+  }
+];
+
+// Runs every check side by side. The access checks write a little data and
+// remove it again.
+export const runDiagnostics = (userId: string): Promise<DiagnosticResult[]> =>
+  Promise.all(CHECKS.map(async ({ run, ...check }) => {
+    try {
+      await run(userId);
+      return { ...check, passed: true };
+    } catch (err: any) {
+      return { ...check, passed: false, detail: err?.message || String(err) };
+    }
+  }));
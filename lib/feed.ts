@@ -0,0 +1,61 @@
+import { FeedCursor, RankedFeedCursor, RankedPost } from '../data';
+import { Post } from '../types';
+
+export const FEED_PAGE_SIZE = 20;
+
+export interface CachedFeed {
+  posts: Post[];
+  hasMore: boolean;
+  // When the ranked feed was scored; later pages must use the same instant
+  rankedAt: string;
+  scrollY: number;
+}
+
+// Loaded feed pages per viewer and filter, kept for the lifetime of the tab
+// so returning from a review restores the feed without refetching it
+const cache = new Map<string, CachedFeed>();
+
+// `search` is the feed's URL query, which holds its filters
+export const feedCacheKey = (viewerId: string, search: string, interests: string[]) =>
+  [viewerId, search, ...interests].join(':');
+
+// Review pages send the reviewer back to the feed as they last filtered it
+let lastFeedSearch = '';
+
+export const rememberFeedSearch = (search: string) => {
+  lastFeedSearch = search;
+};
+
+export const feedPath = () => lastFeedSearch ? `/?${lastFeedSearch}` : '/';
+
+export const readFeedCache = (key: string) => cache.get(key);
+
+export const writeFeedCache = (key: string, feed: Omit<CachedFeed, 'scrollY'>) => {
+  cache.set(key, { ...feed, scrollY: cache.get(key)?.scrollY ?? 0 });
+};
+
+export const rememberFeedScroll = (key: string, scrollY: number) => {
+  const feed = cache.get(key);
+  if (feed) feed.scrollY = scrollY;
+};
+
+// Drops a post the viewer just reviewed, which the feed would no longer return
+export const forgetFeedPost = (postId: string) => {
+  for (const feed of cache.values()) {
+    feed.posts = feed.posts.filter(post => post.id !== postId);
+  }
+};
+
+export const clearFeedCache = (key: string) => {
+  cache.delete(key);
+};
+
+export const nextFeedCursor = (posts: Post[]): FeedCursor | undefined => {
+  const last = posts[posts.length - 1];
+  return last ? { created_at: last.created_at, id: last.id } : undefined;
+};
+
+export const nextRankedCursor = (posts: Post[]): RankedFeedCursor | undefined => {
+  const last = posts[posts.length - 1] as RankedPost | undefined;
+  return last ? { rank_score: last.rank_score, id: last.id } : undefined;
+};
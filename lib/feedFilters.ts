@@ -0,0 +1,97 @@
+import { FeedFilter } from '../data';
+import { CATEGORIES, Category } from '../types';
+
+export type FeedSort = 'recommended' | 'newest' | 'oldest';
+export type QuestionFilter = 'any' | 'with' | 'without';
+
+export interface FeedFilters {
+  sort: FeedSort;
+  // Empty means every category, regardless of the viewer's interests
+  categories: Category[];
+  questions: QuestionFilter;
+  hideSkipped: boolean;
+  nearlyComplete: boolean;
+}
+
+// A post is close to completion when at most this many reviews are missing
+export const NEARLY_COMPLETE_REVIEWS = 2;
+
+export const FEED_SORTS: { value: FeedSort; label: string }[] = [
+  { value: 'recommended', label: 'Recommended' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' }
+];
+
+export const QUESTION_FILTERS: { value: QuestionFilter; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'with', label: 'With questions' },
+  { value: 'without', label: 'Without questions' }
+];
+
+export const DEFAULT_FEED_FILTERS: FeedFilters = {
+  sort: 'recommended',
+  categories: [],
+  questions: 'any',
+  hideSkipped: false,
+  nearlyComplete: false
+};
+
+// Filters live in the URL so a filtered feed can be bookmarked. Unknown or
+// malformed values fall back to the defaults.
+export const parseFeedFilters = (params: URLSearchParams): FeedFilters => {
+  const sort = params.get('sort');
+  const questions = params.get('questions');
+  return {
+    sort: FEED_SORTS.some(s => s.value === sort) ? sort as FeedSort : DEFAULT_FEED_FILTERS.sort,
+    categories: (params.get('categories') || '').split(',').filter((c): c is Category => CATEGORIES.includes(c as Category)),
+    questions: QUESTION_FILTERS.some(q => q.value === questions) ? questions as QuestionFilter : DEFAULT_FEED_FILTERS.questions,
+    hideSkipped: params.get('skipped') === 'hide',
+    nearlyComplete: params.get('nearly_complete') === '1'
+  };
+};
+
+// Defaults are left out to keep URLs short
+export const feedFilterParams = (filters: FeedFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.sort !== DEFAULT_FEED_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.categories.length > 0) params.set('categories', filters.categories.join(','));
+  if (filters.questions !== DEFAULT_FEED_FILTERS.questions) params.set('questions', filters.questions);
+  if (filters.hideSkipped) params.set('skipped', 'hide');
+  if (filters.nearlyComplete) params.set('nearly_complete', '1');
+  return params;
+};
+
+// Everything the panel narrows by; the sort order isn't counted
+export const activeFilterCount = (filters: FeedFilters) =>
+  (filters.categories.length > 0 ? 1 : 0) +
+  (filters.questions !== 'any' ? 1 : 0) +
+  (filters.hideSkipped ? 1 : 0) +
+  (filters.nearlyComplete ? 1 : 0);
+
+export const toFeedFilter = (filters: FeedFilters, viewerId: string): FeedFilter => ({
+  categories: filters.categories,
+  hasQuestions: filters.questions === 'any' ? undefined : filters.questions === 'with',
+  maxReviewsRemaining: filters.nearlyComplete ? NEARLY_COMPLETE_REVIEWS : undefined,
+  excludeIds: filters.hideSkipped ? skippedPosts(viewerId) : []
+});
+
+// Posts passed over with "Skip" on the review page, per user and browser
+const skippedKey = (userId: string) => `lenscritique:skippedPosts:${userId}`;
+// Oldest skips are dropped past this; their posts have long completed
+const MAX_SKIPPED = 500;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const skippedPosts = (userId: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(skippedKey(userId)) || '[]');
+    // localStorage is user-editable; the feed functions take a uuid[]
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const skipPost = (userId: string, postId: string) => {
+  const skipped = [...skippedPosts(userId).filter(id => id !== postId), postId].slice(-MAX_SKIPPED);
+  localStorage.setItem(skippedKey(userId), JSON.stringify(skipped));
+};
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FEED_RANKING, Post } from '../types';
+import { feedScore, pickByScore } from './feedRanking';
+
+const RANKED_AT = '2026-03-10T12:00:00.000Z';
+
+const post = (patch: Partial<Post>) => ({
+  categories: ['Social'],
+  reviews_required: 4,
+  reviews_received: 0,
+  created_at: RANKED_AT,
+  ...patch
+}) as Post;
+
+const context = { interests: [], reviewedCategories: [], rankedAt: RANKED_AT };
+
+describe('feedScore', () => {
+  it('weighs the share of missing reviews', () => {
+    expect(feedScore(post({}), context)).toBe(FEED_RANKING.missingReviews);
+    expect(feedScore(post({ reviews_received: 3 }), context)).toBe(FEED_RANKING.missingReviews / 4);
+    expect(feedScore(post({ reviews_received: 6 }), context)).toBe(0);
+  });
+
+  it('adds the days a post has been waiting', () => {
+    const twoDaysOld = post({ reviews_received: 4, created_at: '2026-03-08T12:00:00.000Z' });
+    expect(feedScore(twoDaysOld, context)).toBe(2 * FEED_RANKING.perDayWaiting);
+  });
+
+  it('favours the viewer\'s interests and review history', () => {
+    const done = post({ reviews_received: 4, categories: ['Social', 'Fashion'] });
+    expect(feedScore(done, { ...context, interests: ['Fashion'] })).toBe(FEED_RANKING.interestMatch / 2);
+    expect(feedScore(done, { ...context, reviewedCategories: ['Social', 'Fashion'] })).toBe(FEED_RANKING.reviewHistory);
+  });
+
+  it('rounds to six decimals like ranked_feed', () => {
+    const waiting = post({ reviews_received: 4, created_at: '2026-03-10T11:59:59.999Z' });
+    expect(feedScore(waiting, context)).toBe(0);
+  });
+});
+
+describe('pickByScore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const candidates = [{ id: 'a', rank_score: 1 }, { id: 'b', rank_score: 3 }, { id: 'c', rank_score: -2 }];
+
+  it('picks in proportion to the score', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.2);
+    expect(pickByScore(candidates)?.id).toBe('a');
+    vi.spyOn(Math, 'random').mockReturnValue(0.3);
+    expect(pickByScore(candidates)?.id).toBe('b');
+  });
+
+  it('never picks a post with a negative score while others score', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(pickByScore(candidates)?.id).toBe('b');
+  });
+
+  it('falls back to a uniform pick when nothing scores', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(pickByScore([{ id: 'a', rank_score: 0 }, { id: 'b', rank_score: 0 }])?.id).toBe('b');
+    expect(pickByScore([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { Category, FEED_RANKING, Post } from '../types';
+
+export interface RankingContext {
+  interests: Category[];
+  // Categories of every post the viewer has reviewed
+  reviewedCategories: Category[];
+  // Scores are taken at this instant so pages of one feed agree
+  rankedAt: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shareIn = (categories: Category[], pool: Category[]) =>
+  categories.filter(c => pool.includes(c)).length / Math.max(categories.length, 1);
+
+// Same formula and rounding as ranked_feed, so cursors round-trip exactly
+export const feedScore = (post: Post, { interests, reviewedCategories, rankedAt }: RankingContext) => {
+  const missing = Math.max(post.reviews_required - post.reviews_received, 0) / Math.max(post.reviews_required, 1);
+  const waitingDays = (new Date(rankedAt).getTime() - new Date(post.created_at).getTime()) / DAY_MS;
+  const score =
+    FEED_RANKING.missingReviews * missing +
+    FEED_RANKING.perDayWaiting * waitingDays +
+    FEED_RANKING.interestMatch * shareIn(post.categories, interests) +
+    FEED_RANKING.reviewHistory * shareIn(post.categories, reviewedCategories);
+  return Math.round(score * 1e6) / 1e6;
+};
+
+// Picks one post with probability proportional to its score, so the posts
+// that need reviews most come up most often without everyone landing on
+// the same one
+export const pickByScore = <T extends { rank_score: number }>(posts: T[]): T | undefined => {
+  const total = posts.reduce((sum, post) => sum + Math.max(post.rank_score, 0), 0);
+  if (total <= 0) return posts[Math.floor(Math.random() * posts.length)];
+  let roll = Math.random() * total;
+  for (const post of posts) {
+    roll -= Math.max(post.rank_score, 0);
+    if (roll < 0) return post;
+  }
+  return posts[posts.length - 1];
+};
@@ -0,0 +1,98 @@
+import { applyRedactions, context2d, createCanvas, RedactionRegion } from './redaction';
+
+// Longest edge in pixels of the stored photo and of its thumbnail
+export const IMAGE_LIMITS = {
+  maxEdge: 1600,
+  thumbnailEdge: 480,
+  avatarEdge: 256,
+  quality: 0.82
+};
+
+export interface ProcessedImage {
+  full: Blob;
+  thumbnail: Blob;
+  // File extension matching the encoded format, e.g. 'webp'
+  extension: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg'
+};
+
+// Decodes the photo upright, applying its EXIF orientation
+export const decodeImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`${file.name} could not be read. Try a JPEG, PNG or WebP photo.`);
+  }
+};
+
+// Redraws the source so its longer edge is at most maxEdge
+export const drawScaled = (source: ImageBitmap | HTMLCanvasElement, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  const canvas = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  const context = context2d(canvas);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, IMAGE_LIMITS.quality));
+
+const encode = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+  // Browsers without a WebP encoder silently fall back to PNG
+  const webp = await toBlob(canvas, 'image/webp');
+  if (webp?.type === 'image/webp') return webp;
+  const jpeg = await toBlob(canvas, 'image/jpeg');
+  if (!jpeg) throw new Error('Could not encode the photo.');
+  return jpeg;
+};
+
+// Thumbnail-sized rendering with the redactions applied, for previews
+export const renderPreview = async (file: File, redactions: RedactionRegion[]): Promise<Blob> => {
+  const bitmap = await decodeImage(file);
+  try {
+    const canvas = drawScaled(bitmap, IMAGE_LIMITS.thumbnailEdge);
+    applyRedactions(canvas, redactions);
+    return await encode(canvas);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Redraws the photo at a bounded size with the redactions burned in, and
+// derives the thumbnail from the redacted pixels. Canvas output carries no
+// metadata, so EXIF data such as the GPS location never leaves the device.
+export const processImage = async (file: File, redactions: RedactionRegion[] = []): Promise<ProcessedImage> => {
+  const bitmap = await decodeImage(file);
+  try {
+    const canvas = drawScaled(bitmap, IMAGE_LIMITS.maxEdge);
+    applyRedactions(canvas, redactions);
+    const full = await encode(canvas);
+    const thumbnail = await encode(drawScaled(canvas, IMAGE_LIMITS.thumbnailEdge));
+    return { full, thumbnail, extension: EXTENSIONS[full.type] };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// A square region of the upright photo, in its pixels
+export interface SquareCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Redraws the crop at avatar size; like processImage, no metadata survives
+export const cropAvatar = async (bitmap: ImageBitmap, { x, y, size }: SquareCrop): Promise<{ blob: Blob; extension: string }> => {
+  const edge = Math.min(IMAGE_LIMITS.avatarEdge, Math.round(size));
+  const canvas = createCanvas(edge, edge);
+  const context = context2d(canvas);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, x, y, size, size, 0, 0, edge, edge);
+  const blob = await encode(canvas);
+  return { blob, extension: EXTENSIONS[blob.type] };
+};
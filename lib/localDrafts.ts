@@ -0,0 +1,67 @@
+import { Category, PostType } from '../types';
+import { RedactionRegion } from './redaction';
+
+// Everything the Create page holds before a post is uploaded
+export interface DraftContent {
+  images: File[];
+  // Parallel to images
+  redactions: RedactionRegion[][];
+  categories: Category[];
+  postType: PostType;
+  questions: string[];
+  reviewsRequired: number;
+}
+
+export interface LocalDraft extends DraftContent {
+  id: string;
+  userId: string;
+  updatedAt: string;
+}
+
+// Unfinished posts live in IndexedDB, which can hold the photo blobs and
+// survives reloads and expired sessions. Nothing here leaves the browser.
+const DB_NAME = 'lenscritique';
+const DB_VERSION = 1;
+const STORE = 'post_drafts';
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('userId', 'userId');
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs one request in its own transaction and resolves once it commits
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const hasDraftContent = (draft: DraftContent) =>
+  draft.images.length > 0 || draft.questions.some(q => q.trim() !== '');
+
+// Newest first
+export const listLocalDrafts = async (userId: string): Promise<LocalDraft[]> => {
+  const drafts = await withStore('readonly', store => store.index('userId').getAll(userId) as IDBRequest<LocalDraft[]>);
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveLocalDraft = async (draft: LocalDraft) => {
+  await withStore('readwrite', store => store.put(draft));
+};
+
+export const deleteLocalDraft = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id));
+};
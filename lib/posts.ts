@@ -0,0 +1,33 @@
+import { backend } from '../data';
+import { Post, PostStatus } from '../types';
+
+export const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  draft: 'Draft',
+  locked: 'Queued',
+  live: 'Live',
+  completed: 'Completed',
+  archived: 'Archived'
+};
+
+// Owner actions available in each state
+export const canPublish = (post: Post) => post.status === 'draft';
+export const canExtend = (post: Post) => post.status === 'live' || post.status === 'completed';
+export const canArchive = (post: Post) => post.status !== 'archived';
+
+// Falls back to the full photo where a post has no thumbnail
+export const thumbnailUrls = (post: Post) =>
+  post.image_urls.map((url, i) => post.thumbnail_urls?.[i] || url);
+
+// Removes the row first, so a failed storage cleanup can only leave orphaned
+// files behind, never a post pointing at missing photos
+export const deletePostWithPhotos = async (post: Post) => {
+  await backend.posts.remove(post.id);
+  const paths = [...post.image_urls, ...(post.thumbnail_urls || [])]
+    .map(url => backend.photos.pathOf(url))
+    .filter((path): path is string => path !== null);
+  try {
+    await backend.photos.remove(paths);
+  } catch (err) {
+    console.error("Photo cleanup error:", err);
+  }
+};
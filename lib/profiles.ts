@@ -0,0 +1,47 @@
+import { backend } from '../data';
+import { uploadWithRetry } from './uploads';
+
+export const USERNAME_RULES = {
+  minLength: 3,
+  maxLength: 24,
+  pattern: /^[A-Za-z0-9_.-]+$/
+};
+
+// Resolves to a message explaining what's wrong, or null when the format is fine
+export const usernameError = (username: string): string | null => {
+  if (username.length < USERNAME_RULES.minLength) return `At least ${USERNAME_RULES.minLength} characters`;
+  if (username.length > USERNAME_RULES.maxLength) return `At most ${USERNAME_RULES.maxLength} characters`;
+  if (!USERNAME_RULES.pattern.test(username)) return 'Letters, numbers, dots, dashes and underscores only';
+  return null;
+};
+
+// Avatars live in the photos bucket under avatars/<user id>/
+const isAvatarPath = (path: string | null, userId: string): path is string =>
+  !!path && path.startsWith(`avatars/${userId}/`);
+
+// Uploads a new avatar and points the profile at it. The previous file is
+// removed afterwards; the new one is removed again if the profile update fails.
+export const replaceAvatar = async (userId: string, previousUrl: string | null | undefined, avatar: { blob: Blob; extension: string }) => {
+  const path = `avatars/${userId}/${Date.now()}.${avatar.extension}`;
+  const url = await uploadWithRetry(path, avatar.blob);
+  try {
+    await backend.profiles.update(userId, { avatar_url: url });
+  } catch (err) {
+    await backend.photos.remove([path]).catch(cleanupErr => console.error("Avatar rollback error:", cleanupErr));
+    throw err;
+  }
+  await removeAvatarFile(userId, previousUrl);
+  return url;
+};
+
+export const removeAvatar = async (userId: string, currentUrl: string | null | undefined) => {
+  await backend.profiles.update(userId, { avatar_url: null });
+  await removeAvatarFile(userId, currentUrl);
+};
+
+// Best effort: a leftover file is picked up by the orphan sweep
+const removeAvatarFile = async (userId: string, url: string | null | undefined) => {
+  const path = url ? backend.photos.pathOf(url) : null;
+  if (!isAvatarPath(path, userId)) return;
+  await backend.photos.remove([path]).catch(err => console.error("Avatar cleanup error:", err));
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { imagePairs, rankPairwise, shuffle, shuffledPairs } from './ranking';
+
+const vote = (winner_index: number, loser_index: number) => ({ winner_index, loser_index });
+
+describe('imagePairs', () => {
+  it('lists every unordered pair once', () => {
+    expect(imagePairs(3)).toEqual([[0, 1], [0, 2], [1, 2]]);
+    expect(imagePairs(1)).toEqual([]);
+  });
+});
+
+// Replays the given rolls, in [0, 1)
+const rolls = (...values: number[]) => () => values.shift() ?? 0;
+
+describe('shuffle', () => {
+  it('swaps each position with a rolled earlier one', () => {
+    expect(shuffle([1, 2, 3, 4], rolls(0, 0, 0))).toEqual([2, 3, 4, 1]);
+    expect(shuffle([1, 2, 3, 4], rolls(0.99, 0.99, 0.99))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('leaves its input untouched', () => {
+    const items = [1, 2, 3];
+    shuffle(items);
+    expect(items).toEqual([1, 2, 3]);
+  });
+
+  it('puts every item first about equally often', () => {
+    const firsts = [0, 0, 0, 0];
+    for (let i = 0; i < 4000; i++) firsts[shuffle([0, 1, 2, 3])[0]] += 1;
+    for (const count of firsts) expect(count).toBeGreaterThan(850);
+  });
+});
+
+describe('shuffledPairs', () => {
+  it('keeps every pair exactly once, in either orientation', () => {
+    const pairs = shuffledPairs(4);
+    expect(pairs).toHaveLength(6);
+    expect(pairs.map(([a, b]) => [Math.min(a, b), Math.max(a, b)]).sort()).toEqual(imagePairs(4).sort());
+  });
+});
+
+describe('rankPairwise', () => {
+  it('ties every photo without votes', () => {
+    const { ranking, totalVotes } = rankPairwise([], 3);
+    expect(totalVotes).toBe(0);
+    for (const image of ranking) expect(image.strength).toBeCloseTo(1 / 3);
+  });
+
+  it('orders photos by how often they win', () => {
+    const votes = [vote(2, 0), vote(2, 1), vote(2, 0), vote(1, 0), vote(1, 0), vote(0, 1)];
+    const { ranking, preference } = rankPairwise(votes, 3);
+
+    expect(ranking.map(r => r.imageIndex)).toEqual([2, 1, 0]);
+    expect(ranking.reduce((sum, r) => sum + r.strength, 0)).toBeCloseTo(1);
+    expect(ranking[0]).toMatchObject({ wins: 3, losses: 0 });
+    expect(preference(2, 0)).toBeGreaterThan(0.5);
+    expect(preference(2, 0) + preference(0, 2)).toBeCloseTo(1);
+  });
+
+  it('keeps an unbeaten photo finite thanks to the prior', () => {
+    const { ranking } = rankPairwise([vote(0, 1), vote(0, 1), vote(0, 1)], 2);
+    expect(ranking[0].imageIndex).toBe(0);
+    expect(ranking[0].strength).toBeLessThan(1);
+    expect(ranking[0].strength).toBeCloseTo(4 / 5);
+  });
+
+  it('ignores votes for photos that do not exist or against themselves', () => {
+    const { totalVotes } = rankPairwise([vote(0, 0), vote(0, 5), vote(-1, 1), vote(1, 0)], 2);
+    expect(totalVotes).toBe(1);
+  });
+});
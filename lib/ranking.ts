@@ -0,0 +1,108 @@
+import { PairwiseVote } from '../types';
+
+export interface RankedImage {
+  imageIndex: number;
+  // Bradley–Terry strength, normalised so all strengths sum to 1
+  strength: number;
+  wins: number;
+  losses: number;
+}
+
+export interface PairwiseRanking {
+  // Strongest first
+  ranking: RankedImage[];
+  totalVotes: number;
+  // Modelled probability that image `a` is preferred over image `b`
+  preference: (a: number, b: number) => number;
+}
+
+interface RankingOptions {
+  // Virtual wins each image gets against every other image. Keeps
+  // strengths finite when one photo wins every comparison and pulls
+  // estimates towards a tie while there are only a handful of votes.
+  prior?: number;
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+// Every unordered pair of image indexes, e.g. 3 images -> [0,1] [0,2] [1,2]
+export const imagePairs = (imageCount: number): [number, number][] => {
+  const pairs: [number, number][] = [];
+  for (let a = 0; a < imageCount; a++) {
+    for (let b = a + 1; b < imageCount; b++) pairs.push([a, b]);
+  }
+  return pairs;
+};
+
+// Fisher–Yates: every order is equally likely, unlike sorting by a random
+// comparator, whose bias depends on the engine's sort
+export const shuffle = <T>(items: T[], random = Math.random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Randomises which pairs come first and which photo sits on the left, so
+// position bias averages out across reviewers
+export const shuffledPairs = (imageCount: number, random = Math.random): [number, number][] =>
+  shuffle(imagePairs(imageCount), random)
+    .map(([a, b]) => (random() < 0.5 ? [a, b] : [b, a]) as [number, number]);
+
+// Fits a Bradley–Terry model to pairwise votes with Hunter's MM algorithm:
+// p_i <- W_i / sum_j (n_ij / (p_i + p_j)), renormalised every iteration.
+export const rankPairwise = (
+  votes: PairwiseVote[],
+  imageCount: number,
+  { prior = 1, maxIterations = 500, tolerance = 1e-9 }: RankingOptions = {}
+): PairwiseRanking => {
+  const valid = votes.filter(v =>
+    v.winner_index !== v.loser_index &&
+    v.winner_index >= 0 && v.winner_index < imageCount &&
+    v.loser_index >= 0 && v.loser_index < imageCount
+  );
+
+  // beats[i][j]: times i was preferred over j, priors included
+  const beats = Array.from({ length: imageCount }, (_, i) =>
+    Array.from({ length: imageCount }, (_, j) => (i === j ? 0 : prior))
+  );
+  const wins = new Array(imageCount).fill(0);
+  const losses = new Array(imageCount).fill(0);
+  for (const vote of valid) {
+    beats[vote.winner_index][vote.loser_index] += 1;
+    wins[vote.winner_index] += 1;
+    losses[vote.loser_index] += 1;
+  }
+
+  let strengths = new Array(imageCount).fill(1 / Math.max(imageCount, 1));
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = strengths.map((p, i) => {
+      let totalWins = 0;
+      let denominator = 0;
+      for (let j = 0; j < imageCount; j++) {
+        if (i === j) continue;
+        totalWins += beats[i][j];
+        const comparisons = beats[i][j] + beats[j][i];
+        if (comparisons > 0) denominator += comparisons / (p + strengths[j]);
+      }
+      return denominator > 0 ? totalWins / denominator : p;
+    });
+    const total = next.reduce((sum, p) => sum + p, 0) || 1;
+    const normalised = next.map(p => p / total);
+    const change = Math.max(...normalised.map((p, i) => Math.abs(p - strengths[i])));
+    strengths = normalised;
+    if (change < tolerance) break;
+  }
+
+  const ranking = strengths
+    .map((strength, imageIndex) => ({ imageIndex, strength, wins: wins[imageIndex], losses: losses[imageIndex] }))
+    .sort((a, b) => b.strength - a.strength || a.imageIndex - b.imageIndex);
+
+  return {
+    ranking,
+    totalVotes: valid.length,
+    preference: (a, b) => strengths[a] / (strengths[a] + strengths[b])
+  };
+};
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyRedactions, context2d, RedactionRegion } from './redaction';
+
+// Tests run without a DOM, so canvases are stand-ins that record every
+// drawing call made on them
+interface FakeCanvas {
+  width: number;
+  height: number;
+  calls: [string, ...unknown[]][];
+  context: Record<string, unknown>;
+  getContext: () => Record<string, unknown> | null;
+}
+
+let canvases: FakeCanvas[];
+
+const fakeCanvas = (width = 0, height = 0): FakeCanvas => {
+  const calls: FakeCanvas['calls'] = [];
+  const record = (name: string) => (...args: unknown[]) => { calls.push([name, ...args]); };
+  const context: Record<string, unknown> = {};
+  for (const name of ['fillRect', 'beginPath', 'moveTo', 'lineTo', 'stroke', 'drawImage']) context[name] = record(name);
+  const canvas = { width, height, calls, context, getContext: () => context };
+  canvases.push(canvas);
+  return canvas;
+};
+
+const callsTo = (canvas: FakeCanvas, name: string) => canvas.calls.filter(([call]) => call === name).map(([, ...args]) => args);
+
+// Masks are the canvases regions get traced on
+const masks = () => canvases.filter(canvas => canvas.calls.some(([call]) => call === 'fillRect' || call === 'stroke'));
+
+const redact = (regions: RedactionRegion[], width = 800, height = 400) => {
+  const photo = fakeCanvas(width, height);
+  applyRedactions(photo as unknown as HTMLCanvasElement, regions);
+  return photo;
+};
+
+beforeEach(() => {
+  canvases = [];
+  vi.stubGlobal('document', { createElement: () => fakeCanvas() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('applyRedactions', () => {
+  it('maps boxes from fractions to pixels, whichever corner they were dragged from', () => {
+    redact([{ shape: 'box', style: 'blur', from: { x: 0.75, y: 0.5 }, to: { x: 0.25, y: 0.25 } }]);
+
+    const [mask] = masks();
+    expect(mask).toMatchObject({ width: 800, height: 400 });
+    expect(callsTo(mask, 'fillRect')).toEqual([[200, 100, 400, 100]]);
+  });
+
+  it('sizes strokes by the longer edge and maps every point', () => {
+    redact([{ shape: 'stroke', style: 'pixelate', size: 0.05, points: [{ x: 0.1, y: 0.5 }, { x: 0.5, y: 0.25 }] }], 400, 800);
+
+    const [mask] = masks();
+    expect(mask.context).toMatchObject({ lineWidth: 40, lineCap: 'round' });
+    expect(callsTo(mask, 'moveTo')).toEqual([[40, 400]]);
+    expect(callsTo(mask, 'lineTo')).toEqual([[200, 200]]);
+  });
+
+  it('leaves a dot for a single tap', () => {
+    redact([{ shape: 'stroke', style: 'blur', size: 0.1, points: [{ x: 0.5, y: 0.5 }] }]);
+
+    const [mask] = masks();
+    expect(callsTo(mask, 'moveTo')).toEqual([[400, 200]]);
+    expect(callsTo(mask, 'lineTo')).toEqual([[400, 200]]);
+    expect(callsTo(mask, 'stroke')).toHaveLength(1);
+  });
+
+  it('traces each style on its own mask and obscures it at that style\'s cell count', () => {
+    const photo = redact([
+      { shape: 'box', style: 'pixelate', from: { x: 0, y: 0 }, to: { x: 0.5, y: 0.5 } },
+      { shape: 'box', style: 'blur', from: { x: 0.5, y: 0.5 }, to: { x: 1, y: 1 } },
+      { shape: 'box', style: 'pixelate', from: { x: 0.5, y: 0 }, to: { x: 1, y: 0.5 } }
+    ]);
+
+    const [blurMask, pixelateMask] = masks();
+    expect(callsTo(blurMask, 'fillRect')).toEqual([[400, 200, 400, 200]]);
+    expect(callsTo(pixelateMask, 'fillRect')).toEqual([[0, 0, 400, 200], [400, 0, 400, 200]]);
+
+    // Reduced copies keep 12 (blur) and 32 (pixelate) cells across the longer edge
+    expect(canvases.filter(canvas => canvas.width < 800).map(({ width, height }) => [width, height])).toEqual([[12, 6], [32, 16]]);
+    expect(canvases.filter(canvas => 'imageSmoothingEnabled' in canvas.context).map(canvas => canvas.context.imageSmoothingEnabled))
+      .toEqual([true, false]);
+    // One obscured layer drawn onto the photo per style
+    expect(callsTo(photo, 'drawImage')).toHaveLength(2);
+  });
+
+  it('leaves the photo untouched without regions', () => {
+    const photo = redact([]);
+    expect(photo.calls).toEqual([]);
+    expect(canvases).toHaveLength(1);
+  });
+});
+
+describe('context2d', () => {
+  it('explains when the browser offers no 2D canvas', () => {
+    const canvas = { ...fakeCanvas(), getContext: () => null };
+    expect(() => context2d(canvas as unknown as HTMLCanvasElement)).toThrow('This browser cannot process photos.');
+  });
+});
@@ -0,0 +1,89 @@
+export type RedactionStyle = 'blur' | 'pixelate';
+
+export const REDACTION_STYLES: RedactionStyle[] = ['blur', 'pixelate'];
+
+export interface RedactionPoint {
+  x: number;
+  y: number;
+}
+
+// Points are fractions of the image width and height, so a region drawn on
+// the editor preview covers the same part of the full-size photo
+export type RedactionRegion =
+  | { shape: 'box'; style: RedactionStyle; from: RedactionPoint; to: RedactionPoint }
+  // size: brush diameter as a fraction of the image's longer edge
+  | { shape: 'stroke'; style: RedactionStyle; points: RedactionPoint[]; size: number };
+
+// How many cells the obscured copy keeps across the image's longer edge.
+// Low enough that faces, plates and signs cannot be recovered.
+const CELLS: Record<RedactionStyle, number> = {
+  blur: 12,
+  pixelate: 32
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const context2d = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('This browser cannot process photos.');
+  return context;
+};
+
+// A full-size copy of the canvas reduced to a handful of cells, scaled back
+// up smoothly (blur) or as hard blocks (pixelate)
+const obscuredCopy = (canvas: HTMLCanvasElement, style: RedactionStyle) => {
+  const scale = CELLS[style] / Math.max(canvas.width, canvas.height);
+  const small = createCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+  context2d(small).drawImage(canvas, 0, 0, small.width, small.height);
+
+  const layer = createCanvas(canvas.width, canvas.height);
+  const context = context2d(layer);
+  context.imageSmoothingEnabled = style === 'blur';
+  context.drawImage(small, 0, 0, layer.width, layer.height);
+  return layer;
+};
+
+const traceRegion = (context: CanvasRenderingContext2D, region: RedactionRegion, width: number, height: number) => {
+  if (region.shape === 'box') {
+    const x = Math.min(region.from.x, region.to.x) * width;
+    const y = Math.min(region.from.y, region.to.y) * height;
+    context.fillRect(x, y, Math.abs(region.to.x - region.from.x) * width, Math.abs(region.to.y - region.from.y) * height);
+    return;
+  }
+  context.lineWidth = region.size * Math.max(width, height);
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  context.beginPath();
+  region.points.forEach(({ x, y }, i) => {
+    if (i === 0) context.moveTo(x * width, y * height);
+    else context.lineTo(x * width, y * height);
+  });
+  // A single tap still leaves a dot
+  if (region.points.length === 1) context.lineTo(region.points[0].x * width, region.points[0].y * height);
+  context.stroke();
+};
+
+// Burns the regions into the canvas pixels
+export const applyRedactions = (canvas: HTMLCanvasElement, regions: RedactionRegion[]) => {
+  const context = context2d(canvas);
+  for (const style of REDACTION_STYLES) {
+    const styled = regions.filter(region => region.style === style);
+    if (styled.length === 0) continue;
+
+    const mask = createCanvas(canvas.width, canvas.height);
+    const maskContext = context2d(mask);
+    styled.forEach(region => traceRegion(maskContext, region, mask.width, mask.height));
+
+    // Keep the obscured copy only inside the mask, then lay it on top
+    const layer = obscuredCopy(canvas, style);
+    const layerContext = context2d(layer);
+    layerContext.globalCompositeOperation = 'destination-in';
+    layerContext.drawImage(mask, 0, 0);
+    context.drawImage(layer, 0, 0);
+  }
+};
@@ -0,0 +1,20 @@
+import { Profile, UserRole } from '../types';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  moderator: 1,
+  admin: 2
+};
+
+// True when the profile holds at least the `required` role. A profile
+// without a role (a schema from before migration 0012) holds none.
+export const hasRole = (profile: Pick<Profile, 'role'> | null | undefined, required: UserRole) => {
+  if (!profile?.role) return false;
+  return ROLE_RANK[profile.role] >= ROLE_RANK[required];
+};
+
+// Rejects profiles read from a schema without the role column, so App sends
+// the user to the setup screen rather than guessing their permissions
+export const assertRoleColumn = (profile: Pick<Profile, 'role'>) => {
+  if (!profile.role) throw new Error('Profiles have no role column. Apply migration 0012_roles.');
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Review } from '../types';
+import { scoreDistribution, summarizeImageScores, summarizeScores, sumScores } from './stats';
+
+describe('summarizeScores', () => {
+  it('returns zeros without reviews and a point interval for one', () => {
+    expect(summarizeScores(0, 0, 0)).toEqual({ mean: 0, ciLow: 0, ciHigh: 0 });
+    expect(summarizeScores(7, 49, 1)).toEqual({ mean: 7, ciLow: 7, ciHigh: 7 });
+  });
+
+  it('builds a t interval around the mean', () => {
+    // Scores 5, 6 and 7: mean 6, sample standard deviation 1
+    const { mean, ciLow, ciHigh } = summarizeScores(18, 110, 3);
+    expect(mean).toBe(6);
+    expect(ciHigh - mean).toBeCloseTo(4.303 / Math.sqrt(3));
+    expect(mean - ciLow).toBeCloseTo(ciHigh - mean);
+  });
+
+  it('clamps the interval to the score scale', () => {
+    // Scores 1 and 10
+    const { ciLow, ciHigh } = summarizeScores(11, 101, 2);
+    expect(ciLow).toBe(1);
+    expect(ciHigh).toBe(10);
+  });
+});
+
+describe('scoreDistribution', () => {
+  it('counts each score from 1 to 10 and drops the rest', () => {
+    const buckets = scoreDistribution([1, 5, 5, 10, 0, 11]);
+    expect(buckets).toHaveLength(10);
+    expect(buckets.map(b => b.count)).toEqual([1, 0, 0, 0, 2, 0, 0, 0, 0, 1]);
+  });
+});
+
+describe('summarizeImageScores', () => {
+  it('summarizes only the photos that were rated', () => {
+    const reviews = [
+      { image_scores: [{ image_index: 1, confidence_score: 8, style_score: 6, approachability_score: 7 }] },
+      { image_scores: [] }
+    ] as unknown as Review[];
+
+    const [first, second] = summarizeImageScores(reviews, 2);
+    expect(first.count).toBe(0);
+    expect(second.count).toBe(1);
+    expect(second.overall).toBe(7);
+    expect(sumScores([{ confidence_score: 8, style_score: 6, approachability_score: 7 }]).style_sq_sum).toBe(36);
+  });
+});
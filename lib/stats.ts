@@ -0,0 +1,93 @@
+import { ImageScore, MetricKey, RATING_METRICS, Review, ScoreSums } from '../types';
+
+export const SCORE_MIN = 1;
+export const SCORE_MAX = 10;
+
+// Two-sided 95% critical values of Student's t for 1..30 degrees of freedom
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+const tCritical = (degreesOfFreedom: number) =>
+  degreesOfFreedom <= T_95.length ? T_95[degreesOfFreedom - 1] : 1.96;
+
+export interface MetricSummary {
+  key: MetricKey;
+  label: string;
+  mean: number;
+  count: number;
+  // 95% confidence interval of the mean, clamped to the 1–10 scale.
+  // Collapses onto the mean when fewer than two reviews exist.
+  ciLow: number;
+  ciHigh: number;
+}
+
+export const summarizeScores = (sum: number, sqSum: number, count: number) => {
+  if (count <= 0) return { mean: 0, ciLow: 0, ciHigh: 0 };
+
+  const mean = sum / count;
+  if (count < 2) return { mean, ciLow: mean, ciHigh: mean };
+
+  const variance = Math.max(0, (sqSum - (sum * sum) / count) / (count - 1));
+  const margin = tCritical(count - 1) * Math.sqrt(variance / count);
+  return {
+    mean,
+    ciLow: Math.max(SCORE_MIN, mean - margin),
+    ciHigh: Math.min(SCORE_MAX, mean + margin)
+  };
+};
+
+export const summarizeMetrics = (sums: ScoreSums, count: number): MetricSummary[] =>
+  RATING_METRICS.map(metric => ({
+    key: metric.key,
+    label: metric.label,
+    count,
+    ...summarizeScores(sums[`${metric.key}_sum`], sums[`${metric.key}_sq_sum`], count)
+  }));
+
+export const formatScore = (value: number) => value.toFixed(1);
+
+// Number of reviews that gave each score from 1 to 10
+export const scoreDistribution = (scores: number[]) => {
+  const buckets = Array.from({ length: SCORE_MAX - SCORE_MIN + 1 }, (_, i) => ({ score: SCORE_MIN + i, count: 0 }));
+  for (const score of scores) {
+    const bucket = buckets[Math.round(score) - SCORE_MIN];
+    if (bucket) bucket.count += 1;
+  }
+  return buckets;
+};
+
+type ScoredEntry = Pick<ImageScore, 'confidence_score' | 'style_score' | 'approachability_score'>;
+
+export const sumScores = (entries: ScoredEntry[]): ScoreSums => {
+  const sums = {} as ScoreSums;
+  for (const { key } of RATING_METRICS) {
+    const scores = entries.map(entry => entry[`${key}_score`]);
+    sums[`${key}_sum`] = scores.reduce((total, score) => total + score, 0);
+    sums[`${key}_sq_sum`] = scores.reduce((total, score) => total + score * score, 0);
+  }
+  return sums;
+};
+
+export interface ImageSummary {
+  imageIndex: number;
+  count: number;
+  // Mean of the three metric means; used to pick the strongest photo
+  overall: number;
+  metrics: MetricSummary[];
+}
+
+// Per-photo breakdown built from the reviews that rated photos separately
+export const summarizeImageScores = (reviews: Review[], imageCount: number): ImageSummary[] =>
+  Array.from({ length: imageCount }, (_, imageIndex) => {
+    const entries = reviews.flatMap(r => (r.image_scores || []).filter(s => s.image_index === imageIndex));
+    const metrics = summarizeMetrics(sumScores(entries), entries.length);
+    return {
+      imageIndex,
+      count: entries.length,
+      overall: metrics.reduce((total, m) => total + m.mean, 0) / metrics.length,
+      metrics
+    };
+  });
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataError } from '../data/errors';
+import { UPLOAD_ABORTED } from '../data/backend';
+import { removeInBatches, uploadWithRetry, UPLOAD_RETRY } from './uploads';
+
+const photos = vi.hoisted(() => ({ upload: vi.fn(), remove: vi.fn() }));
+
+// data/index.ts picks a backend from the page URL, so the module is replaced
+vi.mock('../data', async () => ({
+  ...(await vi.importActual<typeof import('../data/backend')>('../data/backend')),
+  DataError: (await vi.importActual<typeof import('../data/errors')>('../data/errors')).DataError,
+  backend: { photos }
+}));
+
+const file = new Blob(['photo']);
+
+// Runs the upload while letting every backoff elapse
+const settle = async <T>(promise: Promise<T>) => {
+  const outcome = promise.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  return outcome as Promise<{ value?: T; error?: any }>;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  photos.upload.mockReset();
+  photos.remove.mockReset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('uploadWithRetry', () => {
+  it.each([
+    ['a dropped connection', undefined],
+    ['a timeout', '408'],
+    ['rate limiting', '429'],
+    ['a server error', '503']
+  ])('retries after %s', async (_, code) => {
+    photos.upload.mockRejectedValueOnce(new DataError('failed', code)).mockResolvedValueOnce('https://example.com/p.webp');
+    const onRetry = vi.fn();
+
+    const { value } = await settle(uploadWithRetry('u/p.webp', file, { onRetry }));
+    expect(value).toBe('https://example.com/p.webp');
+    expect(photos.upload).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1);
+  });
+
+  it.each([
+    ['a rejected request', '400'],
+    ['a missing permission', '403'],
+    ['an oversized file', '413'],
+    ['a cancellation', UPLOAD_ABORTED]
+  ])('gives up at once on %s', async (_, code) => {
+    photos.upload.mockRejectedValue(new DataError('failed', code));
+
+    const { error } = await settle(uploadWithRetry('u/p.webp', file));
+    expect(error.code).toBe(code);
+    expect(photos.upload).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the last attempt, backing off twice as long each time', async () => {
+    photos.upload.mockRejectedValue(new DataError('failed', '503'));
+    const started = Date.now();
+
+    const { error } = await settle(uploadWithRetry('u/p.webp', file));
+    expect(error.code).toBe('503');
+    expect(photos.upload).toHaveBeenCalledTimes(UPLOAD_RETRY.attempts);
+    expect(Date.now() - started).toBe(UPLOAD_RETRY.baseDelayMs * (2 ** (UPLOAD_RETRY.attempts - 1) - 1));
+  });
+
+  it('cancels during a backoff', async () => {
+    photos.upload.mockRejectedValue(new DataError('failed', '503'));
+    const controller = new AbortController();
+
+    const outcome = uploadWithRetry('u/p.webp', file, { signal: controller.signal }).catch(error => error);
+    await vi.advanceTimersByTimeAsync(UPLOAD_RETRY.baseDelayMs / 2);
+    controller.abort();
+
+    expect((await outcome).code).toBe(UPLOAD_ABORTED);
+    expect(photos.upload).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('removeInBatches', () => {
+  it('deletes at most 100 objects per request', async () => {
+    const paths = Array.from({ length: 250 }, (_, i) => `u/${i}.webp`);
+    await removeInBatches(paths);
+
+    expect(photos.remove.mock.calls.map(([batch]) => batch.length)).toEqual([100, 100, 50]);
+    expect(photos.remove.mock.calls.flatMap(([batch]) => batch)).toEqual(paths);
+  });
+});
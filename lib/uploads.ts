@@ -0,0 +1,69 @@
+import { backend, DataError, UPLOAD_ABORTED, UploadOptions } from '../data';
+
+export const UPLOAD_RETRY = {
+  attempts: 4,
+  // Doubles after every failed attempt
+  baseDelayMs: 1000
+};
+
+// Statuses worth another try; no code at all means the network dropped
+const TRANSIENT_STATUSES = ['408', '429', '500', '502', '503', '504'];
+
+export const isUploadAborted = (err: any) => err?.code === UPLOAD_ABORTED;
+
+const isTransient = (err: any) => !isUploadAborted(err) && (!err?.code || TRANSIENT_STATUSES.includes(err.code));
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DataError('Upload cancelled', UPLOAD_ABORTED));
+  }, { once: true });
+});
+
+// Retries transient failures with exponential backoff. Every attempt sends
+// the whole file again: nothing is resumed from a byte offset.
+export const uploadWithRetry = async (
+  path: string,
+  file: Blob,
+  options: UploadOptions & { onRetry?: (attempt: number) => void } = {}
+): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await backend.photos.upload(path, file, options);
+    } catch (err) {
+      if (attempt >= UPLOAD_RETRY.attempts || !isTransient(err)) throw err;
+      options.onRetry?.(attempt);
+      await wait(UPLOAD_RETRY.baseDelayMs * 2 ** (attempt - 1), options.signal);
+    }
+  }
+};
+
+// The Storage API caps how many objects one request may delete
+export const removeInBatches = async (paths: string[]) => {
+  for (let i = 0; i < paths.length; i += 100) {
+    await backend.photos.remove(paths.slice(i, i + 100));
+  }
+};
+
+export const ORPHAN_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const LAST_SWEEP_KEY = 'lenscritique:lastOrphanSweep';
+
+export const lastOrphanSweep = (): Date | null => {
+  const stored = localStorage.getItem(LAST_SWEEP_KEY);
+  return stored ? new Date(Number(stored)) : null;
+};
+
+export const isOrphanSweepDue = () => {
+  const last = lastOrphanSweep();
+  return !last || Date.now() - last.getTime() > ORPHAN_SWEEP_INTERVAL_MS;
+};
+
+// Admin only: deletes every photo no post references. Resolves to the
+// number of objects removed.
+export const sweepOrphanedPhotos = async (): Promise<number> => {
+  const orphans = await backend.photos.listOrphans();
+  await removeInBatches(orphans);
+  localStorage.setItem(LAST_SWEEP_KEY, String(Date.now()));
+  return orphans.length;
+};
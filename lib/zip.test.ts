@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+// CRC-32 check value from the ZIP specification's polynomial
+const CHECK_CRC = 0xcbf43926;
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('createZip', () => {
+  it('writes stored entries with their CRC-32, sizes and UTF-8 names', async () => {
+    const zip = await bytesOf(await createZip(
+      [{ path: 'check.txt', data: '123456789' }, { path: 'fotos/ü.bin', data: new Blob([new Uint8Array([1, 2, 3])]) }],
+      new Date(2024, 4, 17, 13, 45, 30)
+    ));
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    // Stored, no compression
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+    expect(view.getUint32(14, true)).toBe(CHECK_CRC);
+    expect(view.getUint32(18, true)).toBe(9);
+    expect(view.getUint32(22, true)).toBe(9);
+    expect(new TextDecoder().decode(zip.slice(30, 30 + 9))).toBe('check.txt');
+    expect(new TextDecoder().decode(zip.slice(39, 48))).toBe('123456789');
+
+    const second = 48;
+    expect(view.getUint32(second, true)).toBe(0x04034b50);
+    const nameLength = view.getUint16(second + 26, true);
+    expect(new TextDecoder().decode(zip.slice(second + 30, second + 30 + nameLength))).toBe('fotos/ü.bin');
+    expect([...zip.slice(second + 30 + nameLength, second + 33 + nameLength)]).toEqual([1, 2, 3]);
+  });
+
+  it('ends with a central directory that points back at every entry', async () => {
+    const zip = await bytesOf(await createZip([
+      { path: 'a.txt', data: 'first' },
+      { path: 'b.txt', data: 'second' }
+    ]));
+    const view = new DataView(zip.buffer);
+    const end = zip.length - 22;
+
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directorySize = view.getUint32(end + 12, true);
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(directoryOffset + directorySize).toBe(end);
+
+    let at = directoryOffset;
+    const entries: { name: string; offset: number; crc: number }[] = [];
+    while (at < end) {
+      expect(view.getUint32(at, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(at + 28, true);
+      entries.push({
+        name: new TextDecoder().decode(zip.slice(at + 46, at + 46 + nameLength)),
+        offset: view.getUint32(at + 42, true),
+        crc: view.getUint32(at + 16, true)
+      });
+      at += 46 + nameLength;
+    }
+
+    expect(entries.map(e => e.name)).toEqual(['a.txt', 'b.txt']);
+    for (const entry of entries) {
+      expect(view.getUint32(entry.offset, true)).toBe(0x04034b50);
+      expect(view.getUint32(entry.offset + 14, true)).toBe(entry.crc);
+    }
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const zip = await bytesOf(await createZip([]));
+    expect(zip.length).toBe(22);
+    expect(new DataView(zip.buffer).getUint32(0, true)).toBe(0x06054b50);
+  });
+});
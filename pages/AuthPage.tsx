@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { supabase } from '../supabaseClient';
+import { backend, DEMO_CREDENTIALS } from '../data';
 import { AlertCircle, Mail, Terminal } from 'lucide-react';
 
 const AuthPage: React.FC = () => {
@@ -18,31 +18,23 @@ const AuthPage: React.FC = () => {
 
     try {
       if (isSignUp) {
-        const { error: authError } = await supabase.auth.signUp({
+        const { needsConfirmation } = await backend.auth.signUp({
           email,
           password,
-          options: {
-            data: {
-              username: username || email.split('@')[0]
-            }
-          }
+          username: username || email.split('@')[0]
         });
 
-        if (authError) throw authError;
-        
-        // If we get here without error, sign up was successful.
         // If email confirmation is ON, the user won't be signed in automatically.
-        setError({ 
-          message: "Check your email for a confirmation link to activate your account.", 
-          type: 'confirmation' 
-        });
+        if (needsConfirmation) {
+          setError({ 
+            message: "Check your email for a confirmation link to activate your account.", 
+            type: 'confirmation' 
+          });
+        }
       } else {
-        const { error: signInError } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-        
-        if (signInError) {
+        try {
+          await backend.auth.signIn(email, password);
+        } catch (signInError: any) {
           if (signInError.message.toLowerCase().includes('email not confirmed')) {
             throw { message: "Your email is not confirmed yet. Please check your inbox for the verification link.", type: 'confirmation' };
           }
@@ -73,6 +65,20 @@ const AuthPage: React.FC = () => {
             {isSignUp ? 'Join for honest peer feedback' : 'Improve your social presence with peer reviews'}
           </p>
 
+          {backend.kind === 'memory' && (
+            <div className="p-4 mb-6 rounded-xl bg-amber-50 border border-amber-100 text-xs text-amber-800 font-medium leading-relaxed">
+              <span className="font-bold">Offline demo mode.</span> Data lives in this tab only. Sign in as{' '}
+              <button
+                type="button"
+                onClick={() => { setEmail(DEMO_CREDENTIALS.email); setPassword(DEMO_CREDENTIALS.password); }}
+                className="font-mono font-bold underline"
+              >
+                {DEMO_CREDENTIALS.email}
+              </button>{' '}
+              / <span className="font-mono font-bold">{DEMO_CREDENTIALS.password}</span>
+            </div>
+          )}
+
           <form onSubmit={handleAuth} className="space-y-4">
             {isSignUp && (
               <div>
@@ -1,8 +1,16 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
-import { CATEGORIES, Category, Profile } from '../types';
+import { backend, DataError, UPLOAD_ABORTED } from '../data';
+import { CATEGORIES, Category, PostType, Profile, REVIEW_LIMITS } from '../types';
+import { canAffordPost, postCost, reviewsNeededToPost } from '../lib/credits';
+import { processImage, renderPreview } from '../lib/images';
+import { isUploadAborted, uploadWithRetry } from '../lib/uploads';
+import { RedactionRegion } from '../lib/redaction';
+import RedactionEditor from '../components/RedactionEditor';
+import CameraCapture, { isCameraSupported } from '../components/CameraCapture';
+import LocalDraftList from '../components/LocalDraftList';
+import { deleteLocalDraft, hasDraftContent, listLocalDrafts, LocalDraft, saveLocalDraft } from '../lib/localDrafts';
 import { 
   Upload, 
   X, 
@@ -15,7 +23,12 @@ import {
   ShieldAlert,
   ChevronRight,
   // Fix: Added missing Sparkles import
-  Sparkles
+  Sparkles,
+  SlidersHorizontal,
+  GitCompare,
+  FileText,
+  EyeOff,
+  Camera
 } from 'lucide-react';
 
 interface CreatePostProps {
@@ -31,24 +44,106 @@ interface Notification {
 const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
   const [images, setImages] = useState<File[]>([]);
   const [previewUrls, setPreviewUrls] = useState<string[]>([]);
+  // Regions to hide in each photo, burned in when it is processed for upload
+  const [redactions, setRedactions] = useState<RedactionRegion[][]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
   const [selectedCategories, setSelectedCategories] = useState<Category[]>(['Social']);
+  const [postType, setPostType] = useState<PostType>('rating');
   const [questions, setQuestions] = useState<string[]>(['', '', '']);
+  const [reviewsRequired, setReviewsRequired] = useState(REVIEW_LIMITS.default);
   const [uploading, setUploading] = useState(false);
   const [uploadStep, setUploadStep] = useState<string>('');
+  // Share of each photo's bytes sent so far, from 0 to 1
+  const [uploadProgress, setUploadProgress] = useState<number[]>([]);
+  const uploadController = useRef<AbortController | null>(null);
   const [notification, setNotification] = useState<Notification | null>(null);
+  // The form autosaves to this browser under draftId
+  const [draftId, setDraftId] = useState(() => crypto.randomUUID());
+  const [localDrafts, setLocalDrafts] = useState<LocalDraft[]>([]);
+  // Drafts already turned into posts, so a pending autosave cannot bring them back
+  const finishedDraftIds = useRef(new Set<string>());
   
   const navigate = useNavigate();
 
-  // Create and cleanup object URLs for previews
+  const currentDraft = (): LocalDraft => ({
+    id: draftId,
+    userId: profile.id,
+    updatedAt: new Date().toISOString(),
+    images,
+    redactions,
+    categories: selectedCategories,
+    postType,
+    questions,
+    reviewsRequired
+  });
+
+  const fetchLocalDrafts = async () => {
+    try {
+      setLocalDrafts(await listLocalDrafts(profile.id));
+    } catch (err) {
+      console.error("Local drafts error:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchLocalDrafts();
+  }, [profile.id]);
+
+  useEffect(() => {
+    const draft = currentDraft();
+    if (uploading || !hasDraftContent(draft) || finishedDraftIds.current.has(draft.id)) return;
+    const timer = setTimeout(() => {
+      saveLocalDraft(draft).catch(err => console.error("Draft autosave error:", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [draftId, images, redactions, selectedCategories, postType, questions, reviewsRequired, uploading]);
+
+  const resumeDraft = async (draft: LocalDraft) => {
+    // Switching drafts cancels the pending autosave, so save the form now
+    const current = currentDraft();
+    if (hasDraftContent(current)) {
+      await saveLocalDraft(current).catch(err => console.error("Draft autosave error:", err));
+      await fetchLocalDrafts();
+    }
+    setDraftId(draft.id);
+    setImages(draft.images);
+    setRedactions(draft.redactions);
+    setSelectedCategories(draft.categories);
+    setPostType(draft.postType);
+    setQuestions(draft.questions);
+    setReviewsRequired(draft.reviewsRequired);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const discardDraft = async (draft: LocalDraft) => {
+    if (!confirm("Discard this draft? Its photos are only stored on this device.")) return;
+    try {
+      await deleteLocalDraft(draft.id);
+      await fetchLocalDrafts();
+    } catch (err) {
+      console.error("Discard draft error:", err);
+    }
+  };
+
+  // Create and cleanup object URLs for previews, redacted where requested
   useEffect(() => {
-    const urls = images.map(file => URL.createObjectURL(file));
-    setPreviewUrls(urls);
+    let cancelled = false;
+    let urls: string[] = [];
+    Promise.all(images.map((file, i) => redactions[i]?.length ? renderPreview(file, redactions[i]) : file))
+      .then(blobs => {
+        urls = blobs.map(blob => URL.createObjectURL(blob));
+        if (cancelled) urls.forEach(url => URL.revokeObjectURL(url));
+        else setPreviewUrls(urls);
+      })
+      .catch(err => console.error("Preview error:", err));
     
     // Cleanup function
     return () => {
+      cancelled = true;
       urls.forEach(url => URL.revokeObjectURL(url));
     };
-  }, [images]);
+  }, [images, redactions]);
 
   useEffect(() => {
     if (notification && notification.type !== 'rls') {
@@ -57,14 +152,19 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
     }
   }, [notification]);
 
+  // Uploaded files and camera captures share the same 3 slots
+  const addImages = (newFiles: File[]) => {
+    if (images.length + newFiles.length > 3) {
+      setNotification({ message: "Maximum 3 images allowed", type: 'error' });
+      return;
+    }
+    setImages(prev => [...prev, ...newFiles]);
+    setRedactions(prev => [...prev, ...newFiles.map(() => [])]);
+  };
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const newFiles = Array.from(e.target.files);
-      if (images.length + newFiles.length > 3) {
-        setNotification({ message: "Maximum 3 images allowed", type: 'error' });
-        return;
-      }
-      setImages([...images, ...newFiles]);
+      addImages(Array.from(e.target.files));
     }
   };
 
@@ -72,6 +172,7 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
     const nextImages = [...images];
     nextImages.splice(index, 1);
     setImages(nextImages);
+    setRedactions(redactions.filter((_, i) => i !== index));
   };
 
   const toggleCategory = (cat: Category) => {
@@ -82,7 +183,10 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
     );
   };
 
-  const handleCreate = async () => {
+  // 'draft' keeps the post private until it is published from the profile.
+  // Publishes the form by default, or a saved draft straight from the list.
+  const handleCreate = async (status: 'draft' | 'locked', draft: LocalDraft = currentDraft()) => {
+    const { images, redactions, categories: selectedCategories, postType, questions, reviewsRequired } = draft;
     if (images.length === 0) {
       setNotification({ message: "Please upload at least one photo.", type: 'error' });
       return;
@@ -91,71 +195,86 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
       setNotification({ message: "Please select at least one category.", type: 'error' });
       return;
     }
+    if (postType === 'comparison' && images.length < 2) {
+      setNotification({ message: "A/B comparisons need at least two photos.", type: 'error' });
+      return;
+    }
     
     setUploading(true);
     setUploadStep('Connecting to Vault...');
+    setUploadProgress(images.map(() => 0));
+    const controller = new AbortController();
+    uploadController.current = controller;
+    // Every path we tried to write, removed again if the post is not created
+    const uploadedPaths: string[] = [];
 
     try {
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      if (sessionError || !session?.user) throw new Error("Session expired. Please log in again.");
+      const session = await backend.auth.getSession();
+      if (!session?.user) throw new Error("Session expired. Please log in again.");
 
       const userId = session.user.id;
       const imageUrls = [];
+      const thumbnailUrls = [];
 
-      // 1. Upload Images
+      // 1. Upload Images, resized and stripped of metadata, with thumbnails
       for (let i = 0; i < images.length; i++) {
-        const file = images[i];
+        setUploadStep(`Processing image ${i + 1} of ${images.length}...`);
+        const { full, thumbnail, extension } = await processImage(images[i], redactions[i]);
+
         setUploadStep(`Uploading image ${i + 1} of ${images.length}...`);
+        const baseName = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        const totalBytes = full.size + thumbnail.size;
+        const upload = (path: string, blob: Blob, offset: number) => {
+          uploadedPaths.push(path);
+          return uploadWithRetry(path, blob, {
+            signal: controller.signal,
+            onProgress: (loaded) => setUploadProgress(prev => prev.map((p, j) => j === i ? (offset + loaded) / totalBytes : p)),
+            onRetry: (attempt) => setUploadStep(`Connection trouble, retrying image ${i + 1} (attempt ${attempt + 1})...`)
+          });
+        };
         
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${userId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-        
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from('photos')
-          .upload(fileName, file);
-
-        if (uploadError) {
-          if (uploadError.message.toLowerCase().includes('row-level security') || uploadError.message.toLowerCase().includes('violates row-level security')) {
+        try {
+          imageUrls.push(await upload(`${baseName}.${extension}`, full, 0));
+          thumbnailUrls.push(await upload(`${baseName}.thumb.${extension}`, thumbnail, full.size));
+        } catch (uploadError: any) {
+          if (isUploadAborted(uploadError)) throw uploadError;
+          // Storage reports policy violations in the message only
+          if (uploadError.message.toLowerCase().includes('row-level security')) {
             setNotification({ 
-              message: "Storage Permission Denied: You need to apply the RLS Fix in the Admin Panel to allow photo uploads.", 
+              message: "Storage Permission Denied: Backend Health in the Admin Panel shows which migration allows photo uploads.", 
               type: 'rls' 
             });
             throw new Error("RLS Violation");
           }
           throw new Error(`Storage error: ${uploadError.message}. Make sure 'photos' bucket exists.`);
         }
-        
-        const { data: { publicUrl } } = supabase.storage
-          .from('photos')
-          .getPublicUrl(fileName);
-        
-        imageUrls.push(publicUrl);
       }
 
       // 2. Prepare Data
       setUploadStep('Broadcasting to Community...');
-      const isLive = (profile.posts_remaining_to_unlock || 0) <= 0;
       const cleanedQuestions = questions.filter(q => q.trim() !== "");
 
       const postPayload = {
         user_id: userId,
+        post_type: postType,
         categories: selectedCategories,
         image_urls: imageUrls,
+        thumbnail_urls: thumbnailUrls,
         questions: cleanedQuestions,
-        is_live: isLive,
-        reviews_required: 3,
-        reviews_received: 0
+        // Published posts join the queue; the database spends the credits
+        // and makes them live right away if the balance allows
+        status,
+        reviews_required: reviewsRequired
       };
 
-      // 3. Insert into DB
-      const { error: postError } = await supabase
-        .from('posts')
-        .insert([postPayload]);
-
-      if (postError) {
-        if (postError.message.toLowerCase().includes('row-level security')) {
+      // 3. Insert into DB, the last point where cancelling is possible
+      if (controller.signal.aborted) throw new DataError('Upload cancelled', UPLOAD_ABORTED);
+      try {
+        await backend.posts.create(postPayload);
+      } catch (postError: any) {
+        if (postError.code === '42501') {
           setNotification({ 
-            message: "Table Permission Denied: The 'posts' table is restricted. Apply the SQL Fix in the Admin Panel.", 
+            message: "Table Permission Denied: The 'posts' table is restricted. Backend Health in the Admin Panel shows the fix.", 
             type: 'rls' 
           });
           throw new Error("RLS Violation");
@@ -164,25 +283,65 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
       }
 
       // 4. Success handling
-      setNotification({ message: "Post Published! Your content is now being shared.", type: 'success' });
+      finishedDraftIds.current.add(draft.id);
+      await deleteLocalDraft(draft.id).catch(err => console.error("Draft cleanup error:", err));
+      const isRequirementMet = canAffordPost(profile.credit_balance, reviewsRequired);
+      const reviewsNeeded = reviewsNeededToPost(profile.credit_balance, reviewsRequired);
+      setNotification({
+        message: status === 'draft'
+          ? "Draft saved. Publish it from your profile whenever you're ready."
+          : isRequirementMet
+            ? "Post Published! Your content is now being shared."
+            : `Post queued. It goes live automatically after ${reviewsNeeded} more review${reviewsNeeded === 1 ? '' : 's'}.`,
+        type: 'success'
+      });
       onCreated();
-      setTimeout(() => navigate('/'), 2500);
+      setTimeout(() => navigate(status === 'draft' ? '/profile' : '/'), 2500);
 
     } catch (err: any) {
-      if (err.message !== "RLS Violation") {
+      if (uploadedPaths.length > 0) {
+        setUploadStep('Cleaning up uploaded photos...');
+        await backend.photos.remove(uploadedPaths).catch(cleanupError => console.error("Upload rollback error:", cleanupError));
+      }
+      if (isUploadAborted(err)) {
+        setNotification({ message: "Upload cancelled. Your draft is still saved on this device.", type: 'error' });
+      } else if (err.message !== "RLS Violation") {
         console.error("Creation Error:", err);
         setNotification({ message: err.message || "An unexpected error occurred during publication.", type: 'error' });
       }
     } finally {
+      uploadController.current = null;
       setUploading(false);
       setUploadStep('');
     }
   };
 
-  const isRequirementMet = (profile.posts_remaining_to_unlock || 0) <= 0;
+  const isRequirementMet = canAffordPost(profile.credit_balance, reviewsRequired);
+  const reviewsNeeded = reviewsNeededToPost(profile.credit_balance, reviewsRequired);
+  const cost = postCost(reviewsRequired);
 
   return (
     <div className="max-w-3xl mx-auto p-4 md:py-12 relative">
+      {cameraOpen && (
+        <CameraCapture
+          remaining={3 - images.length}
+          onCapture={(file) => addImages([file])}
+          onClose={() => setCameraOpen(false)}
+        />
+      )}
+
+      {editingIndex !== null && (
+        <RedactionEditor
+          file={images[editingIndex]}
+          regions={redactions[editingIndex] || []}
+          onSave={(regions) => {
+            setRedactions(redactions.map((current, i) => i === editingIndex ? regions : current));
+            setEditingIndex(null);
+          }}
+          onClose={() => setEditingIndex(null)}
+        />
+      )}
+
       {/* Dynamic Notifications */}
       {notification && (
         <div className={`fixed top-24 right-4 left-4 md:left-auto md:w-[450px] z-[100] p-6 rounded-3xl shadow-2xl border flex items-start gap-4 animate-in slide-in-from-top-12 duration-500 ${
@@ -205,7 +364,7 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
                 onClick={() => navigate('/admin')} 
                 className="mt-3 flex items-center gap-1.5 bg-white text-indigo-900 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-tight hover:bg-indigo-50 transition-all"
               >
-                Go to Admin SQL Guide <ChevronRight size={14} />
+                Open Backend Health <ChevronRight size={14} />
               </button>
             )}
           </div>
@@ -213,6 +372,15 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
         </div>
       )}
 
+      <LocalDraftList
+        drafts={localDrafts.filter(draft => draft.id !== draftId)}
+        balance={profile.credit_balance}
+        disabled={uploading}
+        onResume={resumeDraft}
+        onPublish={(draft) => handleCreate('locked', draft)}
+        onDiscard={discardDraft}
+      />
+
       <div className="bg-white rounded-[3rem] shadow-2xl p-10 border border-slate-100 relative overflow-hidden">
         {uploading && (
           <div className="absolute inset-0 bg-white/90 backdrop-blur-md z-50 flex flex-col items-center justify-center p-12 text-center">
@@ -224,6 +392,24 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
             </div>
             <h3 className="text-2xl font-black text-slate-800 mb-2 uppercase tracking-tighter italic">Broadcasting Live</h3>
             <p className="text-slate-500 font-bold text-sm tracking-wide">{uploadStep}</p>
+            <div className="w-full max-w-xs space-y-2 mt-6">
+              {uploadProgress.map((progress, i) => (
+                <div key={i} className="flex items-center gap-3">
+                  <span className="text-[10px] font-black text-slate-400 w-6">#{i + 1}</span>
+                  <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-600 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                  </div>
+                  <span className="text-[10px] font-black text-slate-500 w-8 text-right">{Math.round(progress * 100)}%</span>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => uploadController.current?.abort()}
+              className="mt-6 px-6 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-slate-500 hover:text-red-600 hover:bg-red-50 transition-all"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
@@ -234,7 +420,10 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
           </div>
           <div className={`p-4 rounded-3xl flex flex-col items-center justify-center border ${isRequirementMet ? 'bg-indigo-50 border-indigo-100' : 'bg-amber-50 border-amber-100'}`}>
             <span className={`text-[10px] font-black uppercase tracking-widest ${isRequirementMet ? 'text-indigo-600' : 'text-amber-600'}`}>
-              {isRequirementMet ? 'Live Ready' : 'Locked Mode'}
+              {isRequirementMet ? 'Live Ready' : 'Queued Mode'}
+            </span>
+            <span className="text-[10px] font-bold text-slate-400 mt-1">
+              {profile.credit_balance}/{cost} credits
             </span>
           </div>
         </div>
@@ -254,6 +443,13 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
                     >
                       <X size={16} />
                     </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingIndex(i)}
+                      className="absolute bottom-3 left-3 bg-black/50 backdrop-blur-md hover:bg-indigo-600 text-white rounded-2xl px-3 py-2 text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 transition-all shadow-lg"
+                    >
+                      <EyeOff size={14} /> {redactions[i]?.length ? `${redactions[i].length} hidden` : 'Redact'}
+                    </button>
                   </div>
                 ))}
                 {images.length < 3 && (
@@ -261,6 +457,15 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
                     <Upload size={40} strokeWidth={1} className="transition-transform group-hover:-translate-y-2" />
                     <span className="text-[10px] font-black mt-3 uppercase tracking-widest opacity-60">Add Shot</span>
                     <input type="file" className="hidden" accept="image/*" multiple onChange={handleImageChange} />
+                    {isCameraSupported() && (
+                      <button
+                        type="button"
+                        onClick={(e) => { e.preventDefault(); setCameraOpen(true); }}
+                        className="absolute bottom-4 left-4 right-4 bg-slate-900 hover:bg-indigo-600 text-white rounded-2xl py-2.5 text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-1.5 transition-all"
+                      >
+                        <Camera size={14} /> Use Camera
+                      </button>
+                    )}
                   </label>
                 )}
               </div>
@@ -268,6 +473,41 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
           </div>
 
           <div className="space-y-8">
+            {/* Feedback Style Section */}
+            <div>
+              <label className="block text-[11px] font-black text-slate-400 mb-3 uppercase tracking-widest ml-1">Feedback Style</label>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPostType('rating')}
+                  className={`px-4 py-3 rounded-2xl text-xs font-black transition-all border-2 flex items-center justify-center gap-2 ${
+                    postType === 'rating'
+                      ? 'bg-slate-900 text-white border-slate-900 shadow-xl shadow-slate-200'
+                      : 'bg-white text-slate-500 border-slate-100 hover:border-slate-300'
+                  }`}
+                >
+                  <SlidersHorizontal size={14} /> Score
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPostType('comparison')}
+                  disabled={images.length < 2}
+                  className={`px-4 py-3 rounded-2xl text-xs font-black transition-all border-2 flex items-center justify-center gap-2 disabled:opacity-40 ${
+                    postType === 'comparison'
+                      ? 'bg-slate-900 text-white border-slate-900 shadow-xl shadow-slate-200'
+                      : 'bg-white text-slate-500 border-slate-100 hover:border-slate-300'
+                  }`}
+                >
+                  <GitCompare size={14} /> A/B Compare
+                </button>
+              </div>
+              <p className="mt-2 ml-1 text-[10px] text-slate-400 font-bold">
+                {postType === 'comparison'
+                  ? 'Reviewers pick the better photo of each pair.'
+                  : images.length < 2 ? 'Add a second photo to run an A/B comparison.' : 'Reviewers score confidence, style and approachability.'}
+              </p>
+            </div>
+
             {/* Categories Section */}
             <div>
               <label className="block text-[11px] font-black text-slate-400 mb-3 uppercase tracking-widest ml-1">Categories</label>
@@ -289,6 +529,23 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
               </div>
             </div>
 
+            {/* Review Count Section */}
+            <div>
+              <div className="flex justify-between items-center mb-3 ml-1">
+                <label className="block text-[11px] font-black text-slate-400 uppercase tracking-widest">Reviews Wanted</label>
+                <span className="text-xs font-black text-indigo-600 bg-indigo-50 px-3 py-1 rounded-lg">{reviewsRequired}</span>
+              </div>
+              <input
+                type="range" min={REVIEW_LIMITS.min} max={REVIEW_LIMITS.max} step="1"
+                value={reviewsRequired}
+                onChange={(e) => setReviewsRequired(parseInt(e.target.value))}
+                className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+              />
+              <p className="mt-2 ml-1 text-[10px] text-slate-400 font-bold">
+                Costs {cost} credits. The post leaves the feed once it has {reviewsRequired} reviews.
+              </p>
+            </div>
+
             {/* Questions Section */}
             <div>
               <div className="flex items-center gap-2 mb-3 ml-1">
@@ -327,7 +584,7 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
 
         <div className="mt-12 flex flex-col items-center">
           <button
-            onClick={handleCreate}
+            onClick={() => handleCreate('locked')}
             disabled={images.length === 0 || selectedCategories.length === 0 || uploading}
             className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black text-xl hover:bg-slate-800 hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-30 disabled:hover:scale-100 shadow-2xl flex items-center justify-center gap-4 uppercase tracking-tighter"
           >
@@ -341,8 +598,17 @@ const CreatePost: React.FC<CreatePostProps> = ({ profile, onCreated }) => {
             )}
           </button>
           <p className="mt-4 text-[10px] text-slate-400 font-bold uppercase tracking-widest">
-            {isRequirementMet ? 'Post will be visible immediately' : 'Unlock by reviewing others first'}
+            {isRequirementMet
+              ? `Post goes live immediately for ${cost} credits`
+              : 'Post will queue until you earn enough credits by reviewing'}
           </p>
+          <button
+            onClick={() => handleCreate('draft')}
+            disabled={images.length === 0 || selectedCategories.length === 0 || uploading}
+            className="mt-6 text-xs font-black text-slate-400 hover:text-slate-700 uppercase tracking-widest flex items-center gap-2 disabled:opacity-30"
+          >
+            <FileText size={14} /> Save as Draft
+          </button>
         </div>
       </div>
     </div>
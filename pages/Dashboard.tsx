@@ -1,9 +1,18 @@
 
-import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
-import { Post, Profile, Category } from '../types';
-import { Filter, Star, Zap, Info, Loader2, Database } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { backend } from '../data';
+import { Post, Profile, Category, PostType } from '../types';
+import { reviewsNeededToPost } from '../lib/credits';
+import { hasRole } from '../lib/roles';
+import { thumbnailUrls } from '../lib/posts';
+import { clearFeedCache, FEED_PAGE_SIZE, feedCacheKey, nextFeedCursor, nextRankedCursor, readFeedCache, rememberFeedScroll, rememberFeedSearch, writeFeedCache } from '../lib/feed';
+import { activeFilterCount, DEFAULT_FEED_FILTERS, FeedFilters, feedFilterParams, parseFeedFilters, toFeedFilter } from '../lib/feedFilters';
+import { pickByScore } from '../lib/feedRanking';
+import ImageCarousel from '../components/ImageCarousel';
+import FeedFilterPanel from '../components/FeedFilterPanel';
+import Avatar from '../components/Avatar';
+import { Filter, Star, Zap, Info, Loader2, Database, GitCompare } from 'lucide-react';
 
 interface DashboardProps {
   profile: Profile;
@@ -14,84 +23,162 @@ const DEMO_POSTS = [
   {
     username: 'StyleExpert',
     categories: ['Fashion', 'Lifestyle'] as Category[],
-    image: 'https://images.unsplash.com/photo-1534528741775-53994a69daeb?q=80&w=800',
+    postType: 'rating' as PostType,
+    images: ['https://images.unsplash.com/photo-1534528741775-53994a69daeb?q=80&w=800'],
     question: 'Does this outfit work for a first date in the city?'
   },
   {
     username: 'CareerPro',
     categories: ['Professional'] as Category[],
-    image: 'https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?q=80&w=800',
+    postType: 'rating' as PostType,
+    images: ['https://images.unsplash.com/photo-1506794778202-cad84cf45f1d?q=80&w=800'],
     question: 'How does my headshot look for LinkedIn? Is it too casual?'
   },
   {
     username: 'SocialVibe',
     categories: ['Dating', 'Social'] as Category[],
-    image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=800',
+    postType: 'comparison' as PostType,
+    images: [
+      'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=800',
+      'https://images.unsplash.com/photo-1500648767791-00dcc994a43e?q=80&w=800'
+    ],
     question: 'Which photo gives off better energy for a social profile?'
   }
 ];
 
+// Lucky Match draws from this many of the best-scoring posts
+const LUCKY_MATCH_POOL = 10;
+
 const Dashboard: React.FC<DashboardProps> = ({ profile, refreshProfile }) => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [rankedAt, setRankedAt] = useState('');
+  const [loadingMore, setLoadingMore] = useState(false);
   const [seeding, setSeeding] = useState(false);
-  const [filter, setFilter] = useState<'recommended' | 'recent'>('recommended');
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Visible photo per card, keyed by post id
+  const [activeImages, setActiveImages] = useState<Record<string, number>>({});
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
 
+  const filters = parseFeedFilters(searchParams);
+  const search = feedFilterParams(filters).toString();
+  const cacheKey = feedCacheKey(profile.id, search, filters.sort === 'recommended' ? profile.interests || [] : []);
+
+  const setFilters = (next: FeedFilters) => setSearchParams(feedFilterParams(next), { replace: true });
+
+  useEffect(() => {
+    rememberFeedSearch(search);
+  }, [search]);
+
+  // Reuse the pages loaded before leaving for a review, at the same scroll position
+  useEffect(() => {
+    const cached = readFeedCache(cacheKey);
+    if (cached) {
+      setPosts(cached.posts);
+      setHasMore(cached.hasMore);
+      setRankedAt(cached.rankedAt);
+      setLoading(false);
+      requestAnimationFrame(() => window.scrollTo(0, cached.scrollY));
+    } else {
+      fetchPosts();
+    }
+
+    const onScroll = () => rememberFeedScroll(cacheKey, window.scrollY);
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => window.removeEventListener('scroll', onScroll);
+  }, [cacheKey]);
+
+  // Loads the next page once the end of the list scrolls into view
   useEffect(() => {
-    fetchPosts();
-  }, [filter, profile.interests]);
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) fetchMorePosts();
+    }, { rootMargin: '600px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, posts, loadingMore]);
+
+  // Recommended is ranked by how much each post needs reviews (see
+  // lib/feedRanking); the other sorts go by creation time
+  const loadPage = (at: string, after: Post[] = []): Promise<Post[]> => filters.sort === 'recommended'
+    ? backend.posts.listRanked({
+      ...toFeedFilter(filters, profile.id),
+      viewerId: profile.id,
+      interests: profile.interests || [],
+      rankedAt: at,
+      limit: FEED_PAGE_SIZE,
+      after: nextRankedCursor(after)
+    })
+    : backend.posts.listFeed({
+      ...toFeedFilter(filters, profile.id),
+      viewerId: profile.id,
+      order: filters.sort === 'oldest' ? 'oldest' : 'newest',
+      limit: FEED_PAGE_SIZE,
+      after: nextFeedCursor(after)
+    });
 
   const fetchPosts = async () => {
     setLoading(true);
+    clearFeedCache(cacheKey);
+    const at = new Date().toISOString();
+    setRankedAt(at);
     try {
-      let query = supabase
-        .from('posts')
-        .select('*, profiles(username)')
-        .eq('is_live', true)
-        .neq('user_id', profile.id);
-      
-      if (filter === 'recommended' && profile.interests && profile.interests.length > 0) {
-        query = query.overlaps('categories', profile.interests);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false }).limit(20);
-      if (error) throw error;
-      setPosts(data || []);
+      const data = await loadPage(at);
+      setPosts(data);
+      setHasMore(data.length === FEED_PAGE_SIZE);
+      writeFeedCache(cacheKey, { posts: data, hasMore: data.length === FEED_PAGE_SIZE, rankedAt: at });
     } catch (err) {
       console.error("Fetch posts error:", err);
       setPosts([]);
+      setHasMore(false);
     } finally {
       setLoading(false);
     }
   };
 
+  const fetchMorePosts = async () => {
+    if (loadingMore || !hasMore) return;
+    setLoadingMore(true);
+    try {
+      const data = await loadPage(rankedAt, posts);
+      // Review counts move between pages, which can shift a post across the cursor
+      const next = [...posts, ...data.filter(post => !posts.some(p => p.id === post.id))];
+      setPosts(next);
+      setHasMore(data.length === FEED_PAGE_SIZE);
+      writeFeedCache(cacheKey, { posts: next, hasMore: data.length === FEED_PAGE_SIZE, rankedAt });
+    } catch (err) {
+      console.error("Fetch more posts error:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const seedDemoData = async () => {
     setSeeding(true);
     try {
       for (const demo of DEMO_POSTS) {
         // 1. Create a dummy bot profile (ignore error if exists)
         const botId = `00000000-0000-0000-0000-${Math.random().toString(16).slice(2, 14)}`;
-        await supabase.from('profiles').upsert({
+        await backend.profiles.upsert({
           id: botId,
           username: demo.username,
-          interests: demo.categories,
-          total_confidence: 7,
-          total_style: 8,
-          total_approachability: 6,
-          review_count: 5,
-          posts_remaining_to_unlock: 0
+          interests: demo.categories
         });
 
         // 2. Create the post
-        await supabase.from('posts').insert({
+        await backend.posts.create({
           user_id: botId,
+          post_type: demo.postType,
           categories: demo.categories,
-          image_urls: [demo.image],
+          image_urls: demo.images,
+          thumbnail_urls: [],
           questions: [demo.question],
-          is_live: true,
-          reviews_required: 5,
-          reviews_received: 0
+          status: 'live',
+          reviews_required: 5
         });
       }
       await fetchPosts();
@@ -104,12 +191,28 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, refreshProfile }) => {
     }
   };
 
-  const handleRandomMatch = () => {
-    if (posts.length > 0) {
-      const randomIdx = Math.floor(Math.random() * posts.length);
-      navigate(`/review/${posts[randomIdx].id}`);
-    } else {
-      alert("No matching posts found. Use the 'Seed Demo Data' button to create sample posts!");
+  // Scored fresh within the current filters, whatever the sort, and weighted towards the posts
+  // furthest from completion
+  const handleRandomMatch = async () => {
+    try {
+      const candidates = await backend.posts.listRanked({
+        ...toFeedFilter(filters, profile.id),
+        viewerId: profile.id,
+        interests: profile.interests || [],
+        rankedAt: new Date().toISOString(),
+        limit: LUCKY_MATCH_POOL
+      });
+      const match = pickByScore(candidates);
+      if (match) {
+        navigate(`/review/${match.id}`);
+      } else {
+        alert(hasRole(profile, 'admin')
+          ? "No matching posts found. Use the 'Seed Demo Data' button to create sample posts!"
+          : "No matching posts found. Check back soon!");
+      }
+    } catch (err) {
+      console.error("Lucky match error:", err);
+      alert("Couldn't find a match right now. Please try again.");
     }
   };
 
@@ -125,7 +228,10 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, refreshProfile }) => {
               <Zap size={18} fill="currentColor" /> Lucky Match
             </button>
             <div className="flex items-center gap-2 bg-indigo-500/50 px-4 py-2 rounded-xl text-sm font-medium backdrop-blur-sm">
-              <Star size={16} fill="white" /> {profile.posts_remaining_to_unlock} more needed
+              <Star size={16} fill="white" />
+              {reviewsNeededToPost(profile.credit_balance) > 0
+                ? `${reviewsNeededToPost(profile.credit_balance)} more to post`
+                : `${profile.credit_balance} credits`}
             </div>
           </div>
         </div>
@@ -133,14 +239,21 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, refreshProfile }) => {
 
       <div className="flex items-center justify-between mb-6">
         <div className="flex gap-1 bg-slate-200 p-1 rounded-xl">
-          <button onClick={() => setFilter('recommended')} className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${filter === 'recommended' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Recommended</button>
-          <button onClick={() => setFilter('recent')} className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${filter === 'recent' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Recent</button>
+          <button onClick={() => setFilters({ ...filters, sort: 'recommended' })} className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${filters.sort === 'recommended' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Recommended</button>
+          <button onClick={() => setFilters({ ...filters, sort: 'newest' })} className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${filters.sort !== 'recommended' ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}>Recent</button>
         </div>
-        <button className="p-2 text-slate-400 hover:bg-slate-100 rounded-lg transition-colors">
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`p-2 rounded-lg transition-colors flex items-center gap-1 ${showFilters || activeFilterCount(filters) > 0 ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:bg-slate-100'}`}
+          title="Filters"
+        >
           <Filter size={20} />
+          {activeFilterCount(filters) > 0 && <span className="text-xs font-black">{activeFilterCount(filters)}</span>}
         </button>
       </div>
 
+      {showFilters && <FeedFilterPanel filters={filters} onChange={setFilters} />}
+
       {loading ? (
         <div className="flex flex-col items-center justify-center py-20 gap-4">
           <Loader2 className="animate-spin text-indigo-600" size={40} />
@@ -152,49 +265,78 @@ const Dashboard: React.FC<DashboardProps> = ({ profile, refreshProfile }) => {
             <Info size={32} className="text-slate-300" />
           </div>
           <h3 className="text-xl font-bold text-slate-800 mb-2">No posts available</h3>
-          <p className="text-slate-500 mb-8 max-w-xs mx-auto">Check back later or expand your interests to see more content from the community.</p>
+          {activeFilterCount(filters) > 0 ? (
+            <>
+              <p className="text-slate-500 mb-6 max-w-xs mx-auto">No posts match these filters right now.</p>
+              <button onClick={() => setFilters({ ...DEFAULT_FEED_FILTERS, sort: filters.sort })} className="text-indigo-600 font-bold text-sm hover:underline mb-8">Clear filters</button>
+            </>
+          ) : (
+            <p className="text-slate-500 mb-8 max-w-xs mx-auto">Check back later or expand your interests to see more content from the community.</p>
+          )}
           
-          <div className="max-w-xs mx-auto space-y-4">
-            <div className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100">
-              <p className="text-xs font-bold text-indigo-600 uppercase tracking-widest mb-1">Developer Tools</p>
-              <p className="text-xs text-indigo-500 mb-4 leading-relaxed">Empty database? Click below to seed 3 demo posts so you can test the review flow.</p>
-              <button 
-                onClick={seedDemoData} 
-                disabled={seeding}
-                className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition-all disabled:opacity-50 shadow-lg shadow-indigo-100"
-              >
-                {seeding ? <Loader2 className="animate-spin" size={18} /> : <Database size={18} />}
-                {seeding ? 'Seeding...' : 'Seed Demo Data'}
-              </button>
+          {/* Seeded posts skip the credit queue, which only admins may do */}
+          {hasRole(profile, 'admin') && (
+            <div className="max-w-xs mx-auto space-y-4">
+              <div className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100">
+                <p className="text-xs font-bold text-indigo-600 uppercase tracking-widest mb-1">Developer Tools</p>
+                <p className="text-xs text-indigo-500 mb-4 leading-relaxed">Empty database? Click below to seed 3 demo posts so you can test the review flow.</p>
+                <button 
+                  onClick={seedDemoData} 
+                  disabled={seeding}
+                  className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-700 transition-all disabled:opacity-50 shadow-lg shadow-indigo-100"
+                >
+                  {seeding ? <Loader2 className="animate-spin" size={18} /> : <Database size={18} />}
+                  {seeding ? 'Seeding...' : 'Seed Demo Data'}
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {posts.map((post) => (
-            <div key={post.id} onClick={() => navigate(`/review/${post.id}`)} className="group bg-white rounded-3xl overflow-hidden shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all cursor-pointer border border-slate-100">
-              <div className="relative aspect-[4/5] overflow-hidden bg-slate-100">
-                <img src={post.image_urls[0]} alt="Review" className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105" />
-                <div className="absolute top-4 left-4 flex flex-wrap gap-1 max-w-[80%]">
-                  {post.categories?.map((cat, idx) => (
-                    <div key={idx} className="bg-white/90 backdrop-blur-md px-2 py-0.5 rounded-full text-[10px] font-bold shadow-sm text-indigo-600">
-                      {cat}
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {posts.map((post) => (
+              <div key={post.id} onClick={() => navigate(`/review/${post.id}`)} className="group bg-white rounded-3xl overflow-hidden shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all cursor-pointer border border-slate-100">
+                <ImageCarousel
+                  images={thumbnailUrls(post)}
+                  index={activeImages[post.id] || 0}
+                  onIndexChange={(index) => setActiveImages({ ...activeImages, [post.id]: index })}
+                  className="aspect-[4/5] bg-slate-100"
+                  imageClassName="transition-transform duration-500 group-hover:scale-105"
+                  compact
+                >
+                  <div className="absolute top-4 left-4 flex flex-wrap gap-1 max-w-[80%]">
+                    {post.categories?.map((cat, idx) => (
+                      <div key={idx} className="bg-white/90 backdrop-blur-md px-2 py-0.5 rounded-full text-[10px] font-bold shadow-sm text-indigo-600">
+                        {cat}
+                      </div>
+                    ))}
+                  </div>
+                  {post.post_type === 'comparison' && (
+                    <div className="absolute top-4 right-4 bg-indigo-600 text-white px-2 py-0.5 rounded-full text-[10px] font-black shadow-sm flex items-center gap-1">
+                      <GitCompare size={10} /> A/B
                     </div>
-                  ))}
-                </div>
-              </div>
-              <div className="p-5">
-                <div className="flex items-center justify-between mb-3">
-                  <span className="text-sm font-semibold text-slate-700">@{post.profiles?.username || 'user'}</span>
-                  <span className="text-xs text-slate-400">{new Date(post.created_at).toLocaleDateString()}</span>
+                  )}
+                </ImageCarousel>
+                <div className="p-5">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                      <Avatar username={post.profiles?.username} url={post.profiles?.avatar_url} className="w-7 h-7 text-xs" />
+                      @{post.profiles?.username || 'user'}
+                    </span>
+                    <span className="text-xs text-slate-400">{new Date(post.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-sm text-slate-500 line-clamp-2 italic">
+                    "{post.questions?.[0] || "General feedback please!"}"
+                  </p>
                 </div>
-                <p className="text-sm text-slate-500 line-clamp-2 italic">
-                  "{post.questions?.[0] || "General feedback please!"}"
-                </p>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+          <div ref={sentinelRef} className="flex justify-center py-8">
+            {loadingMore && <Loader2 className="animate-spin text-indigo-600" size={28} />}
+          </div>
+        </>
       )}
     </div>
   );
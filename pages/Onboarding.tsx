@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { supabase } from '../supabaseClient';
+import { backend } from '../data';
 import { CATEGORIES, Category } from '../types';
 import { Check, Loader2 } from 'lucide-react';
 
@@ -24,18 +24,10 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
     if (selectedInterests.length === 0) return;
     setLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const user = await backend.auth.getUser();
       if (!user) return;
 
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          interests: selectedInterests,
-          posts_remaining_to_unlock: 3 // Reset counter on first onboarding
-        })
-        .eq('id', user.id);
-
-      if (error) throw error;
+      await backend.profiles.update(user.id, { interests: selectedInterests });
       onComplete();
     } catch (err) {
       console.error("Onboarding Save Error:", err);
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { backend } from '../data';
+import { Post, Profile, Review, RATING_METRICS, CREDIT_RULES } from '../types';
+import { summarizeMetrics, summarizeImageScores, scoreDistribution, formatScore } from '../lib/stats';
+import ComparisonResults from '../components/ComparisonResults';
+import Avatar from '../components/Avatar';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowLeft, BarChart3, HelpCircle, Loader2, MessageSquare, Trophy, ThumbsUp } from 'lucide-react';
+
+interface PostResultsPageProps {
+  profile: Profile;
+}
+
+const colors = ['#6366f1', '#a855f7', '#ec4899'];
+
+const reviewerLabel = (review: Review) =>
+  review.is_anonymous ? 'Anonymous User' : `@${review.profiles?.username || 'user'}`;
+
+const PostResultsPage: React.FC<PostResultsPageProps> = ({ profile }) => {
+  const { postId } = useParams();
+  const navigate = useNavigate();
+  const [post, setPost] = useState<Post | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [markingId, setMarkingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchResults();
+  }, [postId]);
+
+  const fetchResults = async () => {
+    if (!postId) return;
+    setLoading(true);
+    try {
+      const data = await backend.posts.get(postId);
+      // Results are private to the post owner
+      if (!data || data.user_id !== profile.id) {
+        navigate('/profile', { replace: true });
+        return;
+      }
+      setPost(data);
+      setReviews(await backend.reviews.listForPosts([data.id]));
+    } catch (err) {
+      console.error("Error fetching results:", err);
+      navigate('/profile', { replace: true });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markHelpful = async (review: Review) => {
+    setMarkingId(review.id);
+    try {
+      await backend.credits.markHelpful(review.id);
+      setReviews(reviews.map(r => r.id === review.id ? { ...r, is_helpful: true } : r));
+    } catch (err: any) {
+      console.error(err);
+      alert(`Could not mark as helpful: ${err.message}`);
+    } finally {
+      setMarkingId(null);
+    }
+  };
+
+  if (loading) return (
+    <div className="flex flex-col items-center justify-center min-h-screen gap-4">
+      <Loader2 className="animate-spin text-indigo-600" size={48} />
+      <p className="text-slate-400 font-bold uppercase tracking-widest text-sm">Loading Results...</p>
+    </div>
+  );
+
+  if (!post) return <div className="p-20 text-center">Post not found.</div>;
+
+  const summaries = summarizeMetrics(post, post.score_count);
+  const imageSummaries = summarizeImageScores(reviews, post.image_urls.length);
+  const ratedImages = imageSummaries.filter(i => i.count > 0);
+  // Only crown a winner when at least two photos were scored separately
+  const bestImage = ratedImages.length > 1
+    ? ratedImages.reduce((best, current) => current.overall > best.overall ? current : best).imageIndex
+    : null;
+  // Answers are stored by question index, so keep the original positions
+  const questions = (post.questions || []).map((question, index) => ({ question, index })).filter(q => q.question);
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 md:py-12">
+      <Link to="/profile" className="inline-flex items-center gap-2 text-sm font-bold text-slate-400 hover:text-indigo-600 mb-6 transition-colors">
+        <ArrowLeft size={16} /> Back to profile
+      </Link>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Post Sidebar */}
+        <div className="lg:col-span-1 space-y-6">
+          <div className="bg-white rounded-[2rem] p-4 shadow-sm border border-slate-100 space-y-4">
+            {post.image_urls.map((url, i) => (
+              <div key={i}>
+                <div className="relative aspect-[4/5] rounded-[1.5rem] overflow-hidden bg-slate-100">
+                  <img src={url} alt={`Photo ${i + 1}`} className="w-full h-full object-cover" />
+                  <div className="absolute bottom-3 left-3 bg-black/50 backdrop-blur-md text-white text-[10px] font-black uppercase px-2 py-1 rounded-full">
+                    Photo {i + 1}
+                  </div>
+                  {bestImage === i && (
+                    <div className="absolute top-3 right-3 bg-amber-400 text-white text-[10px] font-black uppercase px-2 py-1 rounded-full shadow-lg flex items-center gap-1">
+                      <Trophy size={12} /> Strongest shot
+                    </div>
+                  )}
+                </div>
+                {imageSummaries[i].count > 0 && (
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    {imageSummaries[i].metrics.map(metric => (
+                      <div key={metric.key} className="bg-slate-50 rounded-xl p-2 text-center">
+                        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{metric.label}</p>
+                        <p className="text-sm font-black text-slate-800">{formatScore(metric.mean)}</p>
+                      </div>
+                    ))}
+                    <p className="col-span-3 text-[10px] text-slate-400 font-bold text-center">
+                      Rated separately by {imageSummaries[i].count} reviewer{imageSummaries[i].count === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-[2rem] p-6 shadow-sm border border-slate-100">
+            <div className="flex flex-wrap gap-1 mb-4">
+              {post.categories?.map((cat, i) => (
+                <span key={i} className="bg-indigo-50 text-indigo-600 px-2 py-0.5 rounded-full text-[10px] font-bold">{cat}</span>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-slate-50 p-4 rounded-2xl">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Reviews</p>
+                <p className="text-xl font-black text-indigo-600">{post.reviews_received}/{post.reviews_required}</p>
+              </div>
+              <div className="bg-slate-50 p-4 rounded-2xl">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">Posted</p>
+                <p className="text-sm font-black text-slate-700 mt-1.5">{new Date(post.created_at).toLocaleDateString()}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Results Area */}
+        <div className="lg:col-span-2 space-y-8">
+          {post.post_type === 'comparison' ? (
+            <ComparisonResults post={post} reviews={reviews} />
+          ) : (
+            <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+              <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+                <BarChart3 size={22} className="text-indigo-600" />
+                Scores
+              </h3>
+              {post.score_count === 0 ? (
+                <p className="text-slate-400 text-center py-12 italic">Scores will appear here once reviewers rate this post.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  {summaries.map((summary, index) => {
+                    const distribution = scoreDistribution(reviews.map(r => r[`${summary.key}_score` as const]).filter((v): v is number => v !== null));
+                    return (
+                      <div key={summary.key} className="bg-slate-50 rounded-2xl p-5">
+                        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{summary.label}</p>
+                        <p className="text-3xl font-black text-slate-800">
+                          {formatScore(summary.mean)}<span className="text-sm text-slate-400">/10</span>
+                        </p>
+                        <p className="text-[10px] text-slate-400 font-bold mb-4">
+                          {summary.count > 1
+                            ? `95% CI ${formatScore(summary.ciLow)}–${formatScore(summary.ciHigh)} · n=${summary.count}`
+                            : `n=${summary.count}`}
+                        </p>
+                        <div className="h-24 w-full">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={distribution}>
+                              <XAxis dataKey="score" axisLine={false} tickLine={false} tick={{ fontSize: 8 }} interval={0} />
+                              <Tooltip cursor={{ fill: '#f1f5f9' }} formatter={(value) => [value, 'Reviews']} labelFormatter={(label) => `Score ${label}`} contentStyle={{ borderRadius: '12px', border: 'none', fontSize: '11px' }} />
+                              <Bar dataKey="count" fill={colors[index % colors.length]} radius={[3, 3, 0, 0]} />
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {questions.length > 0 && (
+            <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+              <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+                <HelpCircle size={22} className="text-indigo-600" />
+                Your Questions
+              </h3>
+              <div className="space-y-8">
+                {questions.map(({ question, index: qi }) => {
+                  const answered = reviews.filter(r => r.answers?.[qi]?.trim());
+                  return (
+                    <div key={qi}>
+                      <p className="font-bold text-slate-800 italic mb-3">"{question}"</p>
+                      {answered.length === 0 ? (
+                        <p className="text-xs text-slate-400 italic">No answers yet.</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {answered.map(review => (
+                            <div key={review.id} className="bg-slate-50 p-4 rounded-xl border border-slate-100">
+                              <p className="text-sm text-slate-600">{review.answers[qi]}</p>
+                              <p className="text-[10px] text-slate-400 font-bold uppercase mt-2">{reviewerLabel(review)}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+            <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+              <MessageSquare size={22} className="text-indigo-600" />
+              General Feedback
+            </h3>
+            <div className="space-y-4">
+              {reviews.length === 0 ? (
+                <p className="text-slate-400 text-center py-12 italic">Feedback will appear here once others review this post.</p>
+              ) : (
+                reviews.map(review => (
+                  <div key={review.id} className="p-6 bg-slate-50 rounded-[1.5rem] border border-slate-100">
+                    <div className="flex justify-between items-start mb-3">
+                      <div className="flex items-center gap-3">
+                        <Avatar username={review.profiles?.username} url={review.profiles?.avatar_url} anonymous={review.is_anonymous} />
+                        <div>
+                          <p className="font-bold text-slate-800">{reviewerLabel(review)}</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase">{new Date(review.created_at).toLocaleDateString()}</p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {review.confidence_score !== null && RATING_METRICS.map(metric => (
+                          <span key={metric.key} title={metric.label} className="text-[10px] font-black text-indigo-600 bg-indigo-50 px-2 py-1 rounded-lg">
+                            {metric.label[0]} {review[`${metric.key}_score` as const]}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                    <p className="text-slate-600 text-sm italic leading-relaxed">"{review.general_feedback}"</p>
+                    <div className="flex justify-end mt-4">
+                      {review.is_helpful ? (
+                        <span className="flex items-center gap-1.5 text-[10px] font-black uppercase text-emerald-600">
+                          <ThumbsUp size={12} fill="currentColor" /> Marked helpful
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => markHelpful(review)}
+                          disabled={markingId === review.id}
+                          title={`Gives the reviewer a ${CREDIT_RULES.helpfulBonus} credit bonus`}
+                          className="flex items-center gap-1.5 text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600 transition-colors disabled:opacity-50"
+                        >
+                          {markingId === review.id ? <Loader2 size={12} className="animate-spin" /> : <ThumbsUp size={12} />}
+                          Helpful
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PostResultsPage;
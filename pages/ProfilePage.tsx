@@ -1,18 +1,35 @@
 
 import React, { useEffect, useState } from 'react';
-import { supabase } from '../supabaseClient';
-import { Profile, Post, Review, RATING_METRICS } from '../types';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { Star, MessageSquare, Image as ImageIcon, Settings } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { backend } from '../data';
+import { Profile, Post, PostStatus, Review, RATING_METRICS, REVIEW_LIMITS } from '../types';
+import { summarizeMetrics, formatScore } from '../lib/stats';
+import { postCost } from '../lib/credits';
+import { POST_STATUS_LABELS, canArchive, canExtend, canPublish, deletePostWithPhotos, thumbnailUrls } from '../lib/posts';
+import CreditLedger from '../components/CreditLedger';
+import Avatar from '../components/Avatar';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ErrorBar } from 'recharts';
+import { Star, MessageSquare, Image as ImageIcon, Settings, Send, PlusCircle, Archive, Trash2, Loader2 } from 'lucide-react';
 
 interface ProfilePageProps {
   profile: Profile;
+  refreshProfile: () => void;
 }
 
-const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
+const STATUS_BADGE_COLORS: Record<PostStatus, string> = {
+  draft: 'bg-slate-500',
+  locked: 'bg-amber-500',
+  live: 'bg-emerald-500',
+  completed: 'bg-indigo-500',
+  archived: 'bg-slate-400'
+};
+
+const ProfilePage: React.FC<ProfilePageProps> = ({ profile, refreshProfile }) => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const navigate = useNavigate();
 
   useEffect(() => {
     fetchProfileData();
@@ -21,25 +38,11 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
   const fetchProfileData = async () => {
     try {
       // Fetch user's posts
-      const { data: postsData } = await supabase
-        .from('posts')
-        .select('*')
-        .eq('user_id', profile.id)
-        .order('created_at', { ascending: false });
-      
-      setPosts(postsData || []);
+      const postsData = await backend.posts.listByUser(profile.id);
+      setPosts(postsData);
 
       // Fetch reviews received on user's posts
-      if (postsData && postsData.length > 0) {
-        const postIds = postsData.map(p => p.id);
-        const { data: reviewsData } = await supabase
-          .from('reviews')
-          .select('*, profiles(username)')
-          .in('post_id', postIds)
-          .order('created_at', { ascending: false });
-        
-        setReviews(reviewsData || []);
-      }
+      setReviews(postsData.length > 0 ? await backend.reviews.listForPosts(postsData.map(p => p.id)) : []);
     } catch (err) {
       console.error(err);
     } finally {
@@ -47,11 +50,48 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
     }
   };
 
-  const chartData = [
-    { name: 'Confidence', value: profile.total_confidence || 0 },
-    { name: 'Style', value: profile.total_style || 0 },
-    { name: 'Approachability', value: profile.total_approachability || 0 },
-  ];
+  // Runs an owner action on one gallery post, then reloads posts and balance
+  const runPostAction = async (post: Post, action: () => Promise<void>) => {
+    setPendingId(post.id);
+    try {
+      await action();
+      await fetchProfileData();
+      refreshProfile();
+    } catch (err: any) {
+      console.error("Post action error:", err);
+      alert(err.message || "That didn't work. Please try again.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const publishPost = (post: Post) =>
+    runPostAction(post, () => backend.posts.update(post.id, { status: 'locked' }));
+
+  const extendPost = (post: Post) => {
+    const input = prompt(`How many more reviews? (1–${REVIEW_LIMITS.maxExtension}, ${postCost(1)} credit each)`, String(REVIEW_LIMITS.default));
+    if (input === null) return;
+    const extra = parseInt(input, 10);
+    runPostAction(post, () => backend.posts.extend(post.id, extra));
+  };
+
+  const archivePost = (post: Post) => {
+    if (!confirm("Archive this post? It leaves the feed, but you keep its results.")) return;
+    runPostAction(post, () => backend.posts.archive(post.id));
+  };
+
+  const deletePost = (post: Post) => {
+    if (!confirm("Delete this post, its photos and all of its feedback? This cannot be undone.")) return;
+    runPostAction(post, () => deletePostWithPhotos(post));
+  };
+
+  const chartData = summarizeMetrics(profile, profile.review_count || 0).map(summary => ({
+    name: summary.label,
+    value: Number(formatScore(summary.mean)),
+    // Asymmetric error bar offsets for the 95% confidence interval
+    ci: [summary.mean - summary.ciLow, summary.ciHigh - summary.mean],
+    summary
+  }));
 
   const colors = ['#6366f1', '#a855f7', '#ec4899'];
 
@@ -62,9 +102,13 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
         {/* Profile Sidebar */}
         <div className="lg:col-span-1 space-y-8">
           <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100 text-center">
-            <div className="w-24 h-24 bg-gradient-to-tr from-indigo-500 to-violet-500 rounded-[2rem] mx-auto mb-4 flex items-center justify-center text-3xl font-bold text-white shadow-lg">
-              {profile.username[0].toUpperCase()}
-            </div>
+            {profile.avatar_url ? (
+              <img src={profile.avatar_url} alt={`@${profile.username}`} className="w-24 h-24 rounded-[2rem] mx-auto mb-4 object-cover shadow-lg" />
+            ) : (
+              <div className="w-24 h-24 bg-gradient-to-tr from-indigo-500 to-violet-500 rounded-[2rem] mx-auto mb-4 flex items-center justify-center text-3xl font-bold text-white shadow-lg">
+                {profile.username[0].toUpperCase()}
+              </div>
+            )}
             <h2 className="text-2xl font-bold text-slate-800">@{profile.username}</h2>
             <p className="text-slate-400 text-sm mb-6">{profile.interests?.join(' • ') || 'No interests set'}</p>
             
@@ -79,12 +123,14 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
               </div>
             </div>
 
-            <button className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all">
+            <button onClick={() => navigate('/settings')} className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-200 text-slate-600 font-semibold hover:bg-slate-50 transition-all">
               <Settings size={18} />
-              Edit Interests
+              Edit Profile & Interests
             </button>
           </div>
 
+          <CreditLedger profile={profile} />
+
           <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
             <h3 className="font-bold text-slate-800 mb-6 flex items-center gap-2">
               <Star size={18} className="text-amber-500" fill="currentColor" />
@@ -94,22 +140,34 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={chartData}>
                   <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10 }} />
+                  <YAxis domain={[0, 10]} hide />
                   <Tooltip cursor={{ fill: '#f8fafc' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
-                  <Bar dataKey="value" radius={[4, 4, 0, 0]}>
+                  <Bar dataKey="value" name="Mean" radius={[4, 4, 0, 0]}>
                     {chartData.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={colors[index % colors.length]} />
                     ))}
+                    <ErrorBar dataKey="ci" width={6} stroke="#334155" />
                   </Bar>
                 </BarChart>
               </ResponsiveContainer>
             </div>
             <div className="mt-4 space-y-2">
-              {chartData.map((d, i) => (
-                <div key={d.name} className="flex justify-between text-xs font-bold text-slate-500 uppercase">
-                  <span>{d.name}</span>
-                  <span className="text-slate-900">{d.value}/10</span>
+              {chartData.map(({ name, summary }) => (
+                <div key={name} className="flex justify-between text-xs font-bold text-slate-500 uppercase">
+                  <span>{name}</span>
+                  <span className="text-slate-900">
+                    {formatScore(summary.mean)}/10
+                    {summary.count > 1 && (
+                      <span className="text-slate-400 font-medium normal-case"> ({formatScore(summary.ciLow)}–{formatScore(summary.ciHigh)})</span>
+                    )}
+                  </span>
                 </div>
               ))}
+              <p className="pt-2 text-[10px] text-slate-400 font-medium">
+                {profile.review_count > 0
+                  ? `Mean of ${profile.review_count} review${profile.review_count === 1 ? '' : 's'}, with 95% confidence intervals.`
+                  : 'Scores appear once your posts receive reviews.'}
+              </p>
             </div>
           </div>
         </div>
@@ -128,26 +186,54 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
             ) : (
               <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
                 {posts.map(post => (
-                  <div key={post.id} className="group relative aspect-square rounded-2xl overflow-hidden bg-slate-100 border border-slate-100">
-                    <img src={post.image_urls[0]} alt="Post" className="w-full h-full object-cover transition-transform group-hover:scale-110" />
-                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center text-white p-2 text-center">
-                      <div className="flex items-center gap-1 font-bold mb-1">
-                        <MessageSquare size={16} />
-                        {post.reviews_received}
-                      </div>
-                      <div className="flex flex-wrap justify-center gap-1">
-                        {post.categories?.slice(0, 2).map((cat, ci) => (
-                          <span key={ci} className="text-[8px] uppercase font-bold tracking-tighter bg-white/20 px-1 rounded">
-                            {cat}
-                          </span>
-                        ))}
+                  <div key={post.id}>
+                    <Link to={`/post/${post.id}`} className="group relative block aspect-square rounded-2xl overflow-hidden bg-slate-100 border border-slate-100">
+                      <img src={thumbnailUrls(post)[0]} alt="Post" className="w-full h-full object-cover transition-transform group-hover:scale-110" />
+                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center text-white p-2 text-center">
+                        <div className="flex items-center gap-1 font-bold mb-1">
+                          <MessageSquare size={16} />
+                          {post.reviews_received}/{post.reviews_required}
+                        </div>
+                        <div className="flex flex-wrap justify-center gap-1">
+                          {post.categories?.slice(0, 2).map((cat, ci) => (
+                            <span key={ci} className="text-[8px] uppercase font-bold tracking-tighter bg-white/20 px-1 rounded">
+                              {cat}
+                            </span>
+                          ))}
+                        </div>
                       </div>
+                      {post.status !== 'live' && (
+                        <div className={`absolute top-2 left-2 ${STATUS_BADGE_COLORS[post.status]} text-white text-[8px] font-black uppercase px-2 py-0.5 rounded-full shadow-lg`}>
+                          {POST_STATUS_LABELS[post.status]}
+                        </div>
+                      )}
+                    </Link>
+                    <div className="flex justify-center gap-1 mt-2">
+                      {pendingId === post.id ? (
+                        <Loader2 size={16} className="animate-spin text-indigo-600 my-1.5" />
+                      ) : (
+                        <>
+                          {canPublish(post) && (
+                            <button onClick={() => publishPost(post)} title="Publish" className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg">
+                              <Send size={14} />
+                            </button>
+                          )}
+                          {canExtend(post) && (
+                            <button onClick={() => extendPost(post)} title="Ask for more reviews" className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg">
+                              <PlusCircle size={14} />
+                            </button>
+                          )}
+                          {canArchive(post) && (
+                            <button onClick={() => archivePost(post)} title="Archive" className="p-1.5 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg">
+                              <Archive size={14} />
+                            </button>
+                          )}
+                          <button onClick={() => deletePost(post)} title="Delete" className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                            <Trash2 size={14} />
+                          </button>
+                        </>
+                      )}
                     </div>
-                    {!post.is_live && (
-                      <div className="absolute top-2 left-2 bg-amber-500 text-white text-[8px] font-black uppercase px-2 py-0.5 rounded-full shadow-lg">
-                        Locked
-                      </div>
-                    )}
                   </div>
                 ))}
               </div>
@@ -167,16 +253,14 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ profile }) => {
                   <div key={review.id} className="p-6 bg-slate-50 rounded-[1.5rem] border border-slate-100 relative overflow-hidden">
                     <div className="flex justify-between items-start mb-4">
                       <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center font-bold text-sm">
-                          {review.is_anonymous ? '?' : review.profiles?.username?.[0].toUpperCase()}
-                        </div>
+                        <Avatar username={review.profiles?.username} url={review.profiles?.avatar_url} anonymous={review.is_anonymous} />
                         <div>
                           <p className="font-bold text-slate-800">{review.is_anonymous ? 'Anonymous User' : `@${review.profiles?.username}`}</p>
                           <p className="text-[10px] text-slate-400 font-bold uppercase">{new Date(review.created_at).toLocaleDateString()}</p>
                         </div>
                       </div>
                       <div className="flex gap-1">
-                        {['confidence', 'style', 'approachability'].map(key => (
+                        {review.confidence_score !== null && ['confidence', 'style', 'approachability'].map(key => (
                           <div key={key} className="w-2 h-2 rounded-full bg-indigo-200" title={`${key}: ${review[key + '_score']}`} />
                         ))}
                       </div>
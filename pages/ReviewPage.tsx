@@ -1,28 +1,73 @@
 
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
-import { Post, RATING_METRICS } from '../types';
-import { Check, Loader2 } from 'lucide-react';
+import { backend, ReviewRejection } from '../data';
+import { Post, Profile, RATING_METRICS } from '../types';
+import ImageCarousel from '../components/ImageCarousel';
+import { shuffledPairs } from '../lib/ranking';
+import { feedPath, forgetFeedPost } from '../lib/feed';
+import { skipPost } from '../lib/feedFilters';
+import { Check, Images, Loader2, GitCompare, SkipForward } from 'lucide-react';
 
 interface ReviewPageProps {
+  profile: Profile;
   onComplete: () => void;
 }
 
-const ReviewPage: React.FC<ReviewPageProps> = ({ onComplete }) => {
+type Ratings = Record<string, number>;
+
+// Rejections that no edit to the form can fix
+const LEAVE_ON_REJECTION: ReviewRejection[] = ['post_not_found', 'own_post', 'post_not_live', 'post_complete', 'already_reviewed'];
+
+const DEFAULT_RATINGS: Ratings = {
+  confidence: 5,
+  style: 5,
+  approachability: 5
+};
+
+interface MetricSlidersProps {
+  ratings: Ratings;
+  onChange: (ratings: Ratings) => void;
+}
+
+const MetricSliders: React.FC<MetricSlidersProps> = ({ ratings, onChange }) => (
+  <>
+    {RATING_METRICS.map((metric) => (
+      <div key={metric.key}>
+        <div className="flex justify-between items-center mb-2">
+          <label className="font-bold text-slate-700">{metric.label}</label>
+          <span className="text-indigo-600 font-bold bg-indigo-50 px-3 py-1 rounded-lg">{ratings[metric.key]}/10</span>
+        </div>
+        <input
+          type="range" min="1" max="10" step="1"
+          value={ratings[metric.key]}
+          onChange={(e) => onChange({ ...ratings, [metric.key]: parseInt(e.target.value) })}
+          className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+        />
+      </div>
+    ))}
+  </>
+);
+
+const ReviewPage: React.FC<ReviewPageProps> = ({ profile, onComplete }) => {
   const { postId } = useParams();
   const navigate = useNavigate();
   const [post, setPost] = useState<Post | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const [ratings, setRatings] = useState<Record<string, number>>({
-    confidence: 5,
-    style: 5,
-    approachability: 5
-  });
-  const [answers, setAnswers] = useState<string[]>(['', '', '']);
+  const [ratings, setRatings] = useState<Ratings>(DEFAULT_RATINGS);
+  const [activeImage, setActiveImage] = useState(0);
+  const [ratePerImage, setRatePerImage] = useState(false);
+  const [imageRatings, setImageRatings] = useState<Ratings[]>([]);
+  // Photos whose sliders the reviewer moved; only these get per-photo scores
+  const [ratedImages, setRatedImages] = useState<number[]>([]);
+  const [pairs, setPairs] = useState<[number, number][]>([]);
+  // Winning image index per pair, aligned with `pairs`
+  const [pairChoices, setPairChoices] = useState<(number | null)[]>([]);
+  const [pairReasons, setPairReasons] = useState<string[]>([]);
+  const [answers, setAnswers] = useState<string[]>([]);
   const [generalFeedback, setGeneralFeedback] = useState('');
-  const [isAnonymous, setIsAnonymous] = useState(true);
+  const [isAnonymous, setIsAnonymous] = useState(profile.review_anonymously ?? true);
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
@@ -32,52 +77,92 @@ const ReviewPage: React.FC<ReviewPageProps> = ({ onComplete }) => {
   const fetchPost = async () => {
     if (!postId) return;
     try {
-      const { data, error } = await supabase
-        .from('posts')
-        .select('*, profiles(username)')
-        .eq('id', postId)
-        .single();
-      
-      if (error) throw error;
+      const [data, user] = await Promise.all([backend.posts.get(postId), backend.auth.getUser()]);
+      if (!data) throw new Error(`Post ${postId} not found`);
+      if (user && data.user_id === user.id) {
+        alert("You can't review your own post.");
+        navigate(feedPath(), { replace: true });
+        return;
+      }
+      if (user && await backend.reviews.hasReviewed(data.id, user.id)) {
+        alert("You've already reviewed this post.");
+        navigate(feedPath(), { replace: true });
+        return;
+      }
       setPost(data);
+      setActiveImage(0);
+      setAnswers(data.questions.map(() => ''));
+      setImageRatings(data.image_urls.map(() => ({ ...DEFAULT_RATINGS })));
+      setRatedImages([]);
+      const nextPairs = data.post_type === 'comparison' ? shuffledPairs(data.image_urls.length) : [];
+      setPairs(nextPairs);
+      setPairChoices(nextPairs.map(() => null));
+      setPairReasons(nextPairs.map(() => ''));
     } catch (err) { 
       console.error("Error fetching post:", err);
-      navigate('/'); 
+      navigate(feedPath()); 
     } finally { 
       setLoading(false); 
     }
   };
 
+  // Passes on the post for now; the feed can hide skipped posts
+  const handleSkip = () => {
+    if (!post) return;
+    skipPost(profile.id, post.id);
+    forgetFeedPost(post.id);
+    navigate(feedPath(), { replace: true });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!post) return;
+    const isComparison = post.post_type === 'comparison';
+    if (isComparison && pairChoices.some(choice => choice === null)) {
+      alert("Pick the better photo in every pair before submitting.");
+      return;
+    }
     setSubmitting(true);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { error: reviewError } = await supabase.from('reviews').insert([{
+      // Validation, the post counter and the review credit are handled
+      // atomically by the backend
+      await backend.reviews.submit({
         post_id: post.id,
-        reviewer_id: user.id,
-        confidence_score: ratings.confidence,
-        style_score: ratings.style,
-        approachability_score: ratings.approachability,
+        confidence_score: isComparison ? null : ratings.confidence,
+        style_score: isComparison ? null : ratings.style,
+        approachability_score: isComparison ? null : ratings.approachability,
+        comparisons: isComparison
+          ? pairs.map(([a, b], i) => ({
+              winner_index: pairChoices[i]!,
+              loser_index: pairChoices[i] === a ? b : a,
+              ...(pairReasons[i].trim() ? { reason: pairReasons[i].trim() } : {})
+            }))
+          : [],
+        image_scores: !isComparison && ratePerImage
+          ? ratedImages.map(i => ({
+              image_index: i,
+              confidence_score: imageRatings[i].confidence,
+              style_score: imageRatings[i].style,
+              approachability_score: imageRatings[i].approachability
+            }))
+          : [],
         answers,
         general_feedback: generalFeedback,
         is_anonymous: isAnonymous
-      }]);
-
-      if (reviewError) throw reviewError;
-
-      // Update backend counters
-      await supabase.rpc('increment_post_reviews', { post_id_input: post.id });
-      await supabase.rpc('decrement_profile_unlock_counter', { user_id_input: user.id });
+      });
 
+      forgetFeedPost(post.id);
       onComplete();
-      navigate('/', { replace: true });
+      navigate(feedPath(), { replace: true });
     } catch (err: any) { 
       console.error("Submission error:", err);
+      if (LEAVE_ON_REJECTION.includes(err.hint)) {
+        forgetFeedPost(post.id);
+        alert(err.message);
+        navigate(feedPath(), { replace: true });
+        return;
+      }
       alert(`Submission failed: ${err.message || "Ensure your database functions are correct."}`); 
     } finally { 
       setSubmitting(false); 
@@ -97,8 +182,12 @@ const ReviewPage: React.FC<ReviewPageProps> = ({ onComplete }) => {
     <div className="max-w-5xl mx-auto p-4 md:py-10 grid grid-cols-1 lg:grid-cols-2 gap-10">
       <div className="space-y-6">
         <div className="sticky top-24">
-          <div className="relative aspect-[4/5] bg-slate-200 rounded-[2.5rem] overflow-hidden shadow-2xl border-8 border-white">
-            <img src={post.image_urls[0]} alt="Review" className="w-full h-full object-cover" />
+          <ImageCarousel
+            images={post.image_urls}
+            index={activeImage}
+            onIndexChange={setActiveImage}
+            className="aspect-[4/5] bg-slate-200 rounded-[2.5rem] shadow-2xl border-8 border-white"
+          >
             <div className="absolute top-6 left-6 flex flex-wrap gap-2 pr-6">
               {post.categories?.map((cat, i) => (
                 <div key={i} className="bg-white/90 backdrop-blur-md px-4 py-2 rounded-full text-xs font-bold shadow-lg text-indigo-600">
@@ -106,29 +195,124 @@ const ReviewPage: React.FC<ReviewPageProps> = ({ onComplete }) => {
                 </div>
               ))}
             </div>
-          </div>
+            {post.image_urls.length > 1 && (
+              <div className="absolute top-6 right-6 bg-black/50 backdrop-blur-md text-white px-3 py-1 rounded-full text-xs font-bold">
+                {activeImage + 1}/{post.image_urls.length}
+              </div>
+            )}
+          </ImageCarousel>
+          {post.image_urls.length > 1 && (
+            <div className="flex justify-center gap-3 mt-4">
+              {post.image_urls.map((url, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => setActiveImage(i)}
+                  className={`w-14 h-16 rounded-xl overflow-hidden border-2 transition-all ${i === activeImage ? 'border-indigo-600 shadow-lg' : 'border-white opacity-60 hover:opacity-100'}`}
+                >
+                  <img src={url} alt={`Photo ${i + 1}`} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="bg-white rounded-[2.5rem] shadow-xl p-8 border border-slate-100">
         <form onSubmit={handleSubmit}>
-          <h2 className="text-3xl font-bold mb-8">Critique</h2>
-          <div className="space-y-8 mb-12">
-            {RATING_METRICS.map((metric) => (
-              <div key={metric.key}>
-                <div className="flex justify-between items-center mb-2">
-                  <label className="font-bold text-slate-700">{metric.label}</label>
-                  <span className="text-indigo-600 font-bold bg-indigo-50 px-3 py-1 rounded-lg">{ratings[metric.key]}/10</span>
+          <div className="flex items-center justify-between mb-8">
+            <h2 className="text-3xl font-bold">Critique</h2>
+            <button
+              type="button"
+              onClick={handleSkip}
+              disabled={submitting}
+              className="text-sm font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-1 disabled:opacity-40"
+            >
+              Skip <SkipForward size={16} />
+            </button>
+          </div>
+          {post.post_type === 'comparison' ? (
+            <div className="space-y-6 mb-12">
+              <p className="flex items-center gap-2 font-bold text-slate-700">
+                <GitCompare size={18} className="text-indigo-600" />
+                Which photo is better?
+              </p>
+              {pairs.map((pair, i) => (
+                <div key={i} className="rounded-2xl border border-slate-100 bg-slate-50 p-4">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Pair {i + 1} of {pairs.length}</p>
+                  <div className="grid grid-cols-2 gap-3 mb-3">
+                    {pair.map(imageIndex => (
+                      <button
+                        key={imageIndex}
+                        type="button"
+                        onClick={() => {
+                          setPairChoices(pairChoices.map((c, ci) => ci === i ? imageIndex : c));
+                          setActiveImage(imageIndex);
+                        }}
+                        className={`relative aspect-[4/5] rounded-xl overflow-hidden border-4 transition-all ${
+                          pairChoices[i] === imageIndex ? 'border-indigo-600 shadow-lg' : 'border-white opacity-80 hover:opacity-100'
+                        }`}
+                      >
+                        <img src={post.image_urls[imageIndex]} alt={`Photo ${imageIndex + 1}`} className="w-full h-full object-cover" />
+                        <span className="absolute bottom-2 left-2 bg-black/50 text-white text-[10px] font-black px-2 py-0.5 rounded-full">
+                          Photo {imageIndex + 1}
+                        </span>
+                        {pairChoices[i] === imageIndex && (
+                          <span className="absolute top-2 right-2 bg-indigo-600 text-white rounded-full p-1"><Check size={14} /></span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="text"
+                    value={pairReasons[i]}
+                    onChange={(e) => setPairReasons(pairReasons.map((r, ri) => ri === i ? e.target.value : r))}
+                    placeholder="Why? (optional)"
+                    className="w-full px-4 py-2 rounded-xl bg-white border border-slate-100 focus:ring-2 focus:ring-indigo-500 transition-all outline-none text-sm"
+                  />
                 </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-8 mb-12">
+              <MetricSliders ratings={ratings} onChange={setRatings} />
+            </div>
+          )}
+
+          {post.post_type !== 'comparison' && post.image_urls.length > 1 && (
+            <div className="mb-12 rounded-2xl border border-slate-100 bg-slate-50 p-5">
+              <label className="flex items-center justify-between gap-4 cursor-pointer">
+                <span className="flex items-center gap-2 font-bold text-slate-700">
+                  <Images size={18} className="text-indigo-600" />
+                  Rate each photo separately
+                </span>
                 <input
-                  type="range" min="1" max="10" step="1"
-                  value={ratings[metric.key]}
-                  onChange={(e) => setRatings({ ...ratings, [metric.key]: parseInt(e.target.value) })}
-                  className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                  type="checkbox"
+                  checked={ratePerImage}
+                  onChange={(e) => setRatePerImage(e.target.checked)}
+                  className="w-5 h-5 accent-indigo-600"
                 />
-              </div>
-            ))}
-          </div>
+              </label>
+              {ratePerImage && imageRatings[activeImage] && (
+                <div className="mt-6 space-y-6">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-widest">
+                    Photo {activeImage + 1} of {post.image_urls.length}
+                    {!ratedImages.includes(activeImage) && ' · not rated yet'}
+                  </p>
+                  <MetricSliders
+                    ratings={imageRatings[activeImage]}
+                    onChange={(next) => {
+                      setImageRatings(imageRatings.map((r, i) => i === activeImage ? next : r));
+                      if (!ratedImages.includes(activeImage)) setRatedImages([...ratedImages, activeImage].sort((a, b) => a - b));
+                    }}
+                  />
+                  <p className="text-[11px] text-slate-400">
+                    {ratedImages.length} of {post.image_urls.length} photos rated. Only rated photos get their own scores; switch photos on the left to score the others.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
 
           <div className="space-y-6 mb-12">
             {post.questions.map((q, i) => q && (
@@ -0,0 +1,363 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { backend } from '../data';
+import { ACCOUNT_DELETION, CATEGORIES, Category, Profile } from '../types';
+import { removeAvatar, replaceAvatar, usernameError } from '../lib/profiles';
+import { exportAccount, exportFileName, ExportProgress } from '../lib/accountExport';
+import { deletionDate } from '../lib/accountDeletion';
+import Avatar from '../components/Avatar';
+import AvatarCropper from '../components/AvatarCropper';
+import { AlertTriangle, Camera, Check, Download, EyeOff, Loader2, Save, Trash2, User } from 'lucide-react';
+
+interface SettingsPageProps {
+  profile: Profile;
+  onSaved: () => void;
+}
+
+type UsernameStatus = 'unchanged' | 'invalid' | 'checking' | 'available' | 'taken';
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ profile, onSaved }) => {
+  const [username, setUsername] = useState(profile.username);
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>('unchanged');
+  const [interests, setInterests] = useState<Category[]>(profile.interests || []);
+  const [reviewAnonymously, setReviewAnonymously] = useState(profile.review_anonymously ?? true);
+  // Cropped avatar, uploaded only on save
+  const [newAvatar, setNewAvatar] = useState<{ blob: Blob; extension: string } | null>(null);
+  const [newAvatarUrl, setNewAvatarUrl] = useState<string | null>(null);
+  const [avatarRemoved, setAvatarRemoved] = useState(false);
+  const [cropping, setCropping] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Photos fetched so far while an export runs
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const [keepReviews, setKeepReviews] = useState(profile.keep_reviews_on_deletion ?? true);
+  // The username, typed again to confirm the deletion
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deletionPending, setDeletionPending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const trimmedUsername = username.trim();
+  const formatError = trimmedUsername === profile.username ? null : usernameError(trimmedUsername);
+
+  // Checks availability once typing pauses
+  useEffect(() => {
+    if (trimmedUsername === profile.username) {
+      setUsernameStatus('unchanged');
+      return;
+    }
+    if (formatError) {
+      setUsernameStatus('invalid');
+      return;
+    }
+    setUsernameStatus('checking');
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const taken = await backend.profiles.isUsernameTaken(trimmedUsername, profile.id);
+        if (!cancelled) setUsernameStatus(taken ? 'taken' : 'available');
+      } catch (err) {
+        console.error("Username check error:", err);
+        // The save still hits the unique constraint
+        if (!cancelled) setUsernameStatus('available');
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedUsername, profile.username]);
+
+  useEffect(() => {
+    if (!newAvatar) {
+      setNewAvatarUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(newAvatar.blob);
+    setNewAvatarUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [newAvatar]);
+
+  const toggleInterest = (category: Category) => {
+    setInterests(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCropping(file);
+    // Picking the same file again should reopen the cropper
+    e.target.value = '';
+  };
+
+  const savedInterests = profile.interests || [];
+  const dirty = trimmedUsername !== profile.username ||
+    interests.length !== savedInterests.length || interests.some(c => !savedInterests.includes(c)) ||
+    reviewAnonymously !== (profile.review_anonymously ?? true) ||
+    !!newAvatar || (avatarRemoved && !!profile.avatar_url);
+  const canSave = dirty && !saving && interests.length > 0 && (usernameStatus === 'unchanged' || usernameStatus === 'available');
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      // Only these fields: the credit balance is never written from here
+      await backend.profiles.update(profile.id, {
+        ...(trimmedUsername !== profile.username ? { username: trimmedUsername } : {}),
+        interests,
+        review_anonymously: reviewAnonymously
+      });
+      if (newAvatar) {
+        await replaceAvatar(profile.id, profile.avatar_url, newAvatar);
+      } else if (avatarRemoved && profile.avatar_url) {
+        await removeAvatar(profile.id, profile.avatar_url);
+      }
+      setNewAvatar(null);
+      setAvatarRemoved(false);
+      onSaved();
+    } catch (err: any) {
+      console.error("Settings save error:", err);
+      if (err.code === '23505') {
+        setUsernameStatus('taken');
+        alert(`@${trimmedUsername} was just taken. Pick another username.`);
+      } else {
+        alert(`Could not save your settings: ${err.message || 'unknown error'}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExportProgress({ done: 0, total: 0 });
+    try {
+      const archive = await exportAccount(profile, setExportProgress);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exportFileName(profile);
+      link.click();
+      // Revoked later: some browsers start the download asynchronously
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (err: any) {
+      console.error("Account export error:", err);
+      alert(`Could not export your data: ${err.message || 'unknown error'}`);
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const scheduledDeletion = deletionDate(profile);
+
+  const handleRequestDeletion = async () => {
+    if (deleteConfirmation.trim() !== profile.username) return;
+    setDeletionPending(true);
+    try {
+      await backend.accounts.requestDeletion(keepReviews);
+      setDeleteConfirmation('');
+      onSaved();
+    } catch (err: any) {
+      console.error("Account deletion request error:", err);
+      alert(`Could not schedule the deletion: ${err.message || 'unknown error'}`);
+    } finally {
+      setDeletionPending(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setDeletionPending(true);
+    try {
+      await backend.accounts.cancelDeletion();
+      onSaved();
+    } catch (err: any) {
+      console.error("Cancel deletion error:", err);
+      alert(`Could not cancel the deletion: ${err.message || 'unknown error'}`);
+    } finally {
+      setDeletionPending(false);
+    }
+  };
+
+  const shownAvatarUrl = newAvatarUrl || (avatarRemoved ? null : profile.avatar_url);
+
+  return (
+    <div className="max-w-2xl mx-auto p-4 md:py-12 space-y-8">
+      <h1 className="text-3xl font-bold text-slate-800">Settings</h1>
+
+      <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+        <h2 className="font-bold text-slate-800 mb-6 flex items-center gap-2">
+          <User size={18} className="text-indigo-600" /> Profile
+        </h2>
+        <div className="flex flex-col sm:flex-row items-center gap-6 mb-6">
+          <Avatar username={trimmedUsername || profile.username} url={shownAvatarUrl} className="w-24 h-24 text-3xl" />
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-semibold hover:bg-slate-50 flex items-center gap-2"
+            >
+              <Camera size={16} /> {shownAvatarUrl ? 'Change Photo' : 'Upload Photo'}
+            </button>
+            {shownAvatarUrl && (
+              <button
+                onClick={() => { setNewAvatar(null); setAvatarRemoved(true); }}
+                className="px-4 py-2 rounded-xl text-slate-400 text-sm font-semibold hover:text-red-500 hover:bg-red-50 flex items-center gap-2"
+              >
+                <Trash2 size={16} /> Remove
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+          </div>
+        </div>
+
+        <label className="block text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">Username</label>
+        <div className="relative">
+          <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-semibold">@</span>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="w-full pl-9 pr-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none font-semibold text-slate-700"
+            autoComplete="off"
+          />
+        </div>
+        <p className={`text-xs font-semibold mt-2 ml-1 h-4 ${usernameStatus === 'available' ? 'text-emerald-600' : usernameStatus === 'checking' ? 'text-slate-400' : 'text-red-500'}`}>
+          {usernameStatus === 'invalid' && formatError}
+          {usernameStatus === 'checking' && 'Checking...'}
+          {usernameStatus === 'available' && `@${trimmedUsername} is available`}
+          {usernameStatus === 'taken' && `@${trimmedUsername} is taken`}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+        <h2 className="font-bold text-slate-800 mb-2">Interests</h2>
+        <p className="text-slate-500 text-sm mb-6">Recommended posts lean towards these categories. Pick at least one.</p>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORIES.map(category => (
+            <button
+              key={category}
+              onClick={() => toggleInterest(category)}
+              className={`px-4 py-2 rounded-xl text-sm font-bold border-2 transition-all flex items-center gap-2 ${
+                interests.includes(category)
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-slate-200 text-slate-500 hover:border-slate-300'
+              }`}
+            >
+              {interests.includes(category) && <Check size={14} />}
+              {category}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+        <h2 className="font-bold text-slate-800 mb-6 flex items-center gap-2">
+          <EyeOff size={18} className="text-indigo-600" /> Review Defaults
+        </h2>
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <div>
+            <p className="font-semibold text-slate-700">Post reviews anonymously</p>
+            <p className="text-slate-500 text-sm">New reviews start with this setting. You can still change it on each review.</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={reviewAnonymously}
+            onChange={(e) => setReviewAnonymously(e.target.checked)}
+            className="w-5 h-5 accent-indigo-600 flex-shrink-0"
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={!canSave}
+        className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-bold text-lg hover:bg-indigo-700 transition-all disabled:opacity-50 shadow-lg shadow-indigo-100 flex items-center justify-center gap-2"
+      >
+        {saving ? <Loader2 className="animate-spin" size={20} /> : dirty ? <Save size={20} /> : <Check size={20} />}
+        {saving ? 'Saving...' : dirty ? 'Save Changes' : 'All Changes Saved'}
+      </button>
+
+      <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-slate-100">
+        <h2 className="font-bold text-slate-800 mb-2 flex items-center gap-2">
+          <Download size={18} className="text-indigo-600" /> Your Data
+        </h2>
+        <p className="text-slate-500 text-sm mb-6">
+          Download a ZIP with your profile, credit history, every post with its original photos, the reviews you received and the reviews you wrote.
+          It holds a <code>manifest.json</code> for other apps and a readable <code>summary.txt</code>. Anonymous reviewers stay anonymous.
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={!!exportProgress}
+          className="px-5 py-3 rounded-xl border border-slate-200 text-slate-600 text-sm font-semibold hover:bg-slate-50 flex items-center gap-2 disabled:opacity-50"
+        >
+          {exportProgress ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />}
+          {exportProgress
+            ? exportProgress.total > 0 ? `Collecting photos ${exportProgress.done}/${exportProgress.total}...` : 'Preparing export...'
+            : 'Download My Data'}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-[2rem] p-8 shadow-sm border border-red-100">
+        <h2 className="font-bold text-red-600 mb-2 flex items-center gap-2">
+          <AlertTriangle size={18} /> Delete Account
+        </h2>
+        {scheduledDeletion ? (
+          <>
+            <p className="text-slate-500 text-sm mb-6">
+              Your account will be deleted on <span className="font-semibold text-slate-700">{scheduledDeletion.toLocaleString()}</span>.
+              Reviews you wrote on other people's posts will be {profile.keep_reviews_on_deletion ? 'kept without your name' : 'deleted'}.
+              Until then you can change your mind.
+            </p>
+            <button
+              onClick={handleCancelDeletion}
+              disabled={deletionPending}
+              className="px-5 py-3 rounded-xl bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50"
+            >
+              {deletionPending && <Loader2 className="animate-spin" size={16} />} Keep My Account
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-slate-500 text-sm mb-6">
+              Deletes your profile, your posts with their photos and reviews, your avatar and your credits {ACCOUNT_DELETION.graceDays} days
+              after you confirm. You can cancel any time before then. Download your data first if you want a copy.
+            </p>
+            <label className="flex items-start gap-3 mb-6 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepReviews}
+                onChange={(e) => setKeepReviews(e.target.checked)}
+                className="w-5 h-5 mt-0.5 accent-indigo-600 flex-shrink-0"
+              />
+              <span>
+                <span className="block font-semibold text-slate-700">Keep my reviews on other people's posts</span>
+                <span className="block text-slate-500 text-sm">They stay up as anonymous reviews, with nothing linking them to you. Unticked, they are deleted too.</span>
+              </span>
+            </label>
+            <label className="block text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 ml-1">
+              Type {profile.username} to confirm
+            </label>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                value={deleteConfirmation}
+                onChange={(e) => setDeleteConfirmation(e.target.value)}
+                className="flex-1 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-red-500 outline-none font-semibold text-slate-700"
+                autoComplete="off"
+              />
+              <button
+                onClick={handleRequestDeletion}
+                disabled={deletionPending || deleteConfirmation.trim() !== profile.username}
+                className="px-5 py-3 rounded-xl bg-red-600 text-white text-sm font-semibold hover:bg-red-700 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {deletionPending ? <Loader2 className="animate-spin" size={16} /> : <Trash2 size={16} />} Delete My Account
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {cropping && (
+        <AvatarCropper
+          file={cropping}
+          onCrop={(avatar) => { setNewAvatar(avatar); setAvatarRemoved(false); setCropping(null); }}
+          onClose={() => setCropping(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SettingsPage;
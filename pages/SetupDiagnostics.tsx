@@ -0,0 +1,46 @@
+import React from 'react';
+import { backend } from '../data';
+import DiagnosticsReport from '../components/DiagnosticsReport';
+import MigrationStatus from '../components/MigrationStatus';
+import { AlertCircle, LogOut, RefreshCcw } from 'lucide-react';
+
+interface SetupDiagnosticsProps {
+  userId: string;
+  error: string;
+  onRetry: () => void;
+}
+
+// Shown instead of the app when the signed-in user's profile cannot be
+// loaded, which on a new project almost always means an incomplete setup
+const SetupDiagnostics: React.FC<SetupDiagnosticsProps> = ({ userId, error, onRetry }) => {
+  return (
+    <div className="min-h-screen bg-slate-50 p-4 md:py-12">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-slate-900 text-white p-8 rounded-[3rem] shadow-2xl mb-12 flex flex-col md:flex-row items-start md:items-center justify-between gap-8">
+          <div>
+            <div className="flex items-center gap-3 mb-3">
+              <AlertCircle size={28} className="text-red-400" />
+              <h1 className="text-4xl font-black tracking-tighter uppercase">Backend Setup</h1>
+            </div>
+            <p className="text-slate-400 font-medium max-w-lg italic">Your profile could not be loaded: {error}</p>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <button onClick={onRetry} className="bg-indigo-600 hover:bg-indigo-500 text-white px-8 py-4 rounded-2xl font-black flex items-center gap-3 transition-all shadow-xl active:scale-95">
+              <RefreshCcw size={20} /> Retry
+            </button>
+            <button onClick={() => backend.auth.signOut()} className="bg-white/10 hover:bg-white/20 text-white px-8 py-4 rounded-2xl font-black flex items-center gap-3 transition-all">
+              <LogOut size={20} /> Sign Out
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+          <DiagnosticsReport userId={userId} />
+          <MigrationStatus />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetupDiagnostics;
@@ -0,0 +1,147 @@
+-- Reviewer identity of anonymous reviews must not be readable by post owners,
+-- other users or anonymous visitors. Runs against a database with every
+-- migration applied; see "Database tests" in the README.
+BEGIN;
+SELECT plan(19);
+
+-- Fixtures, written as the table owner so no policy or guard gets in the way
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'owner@example.com'),
+  ('00000000-0000-4000-a000-000000000002', 'named@example.com'),
+  ('00000000-0000-4000-a000-000000000003', 'hidden@example.com'),
+  ('00000000-0000-4000-a000-000000000004', 'moderator@example.com');
+
+INSERT INTO profiles (id, username, avatar_url, interests, role) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'test_owner', NULL, '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000002', 'test_named', 'https://example.com/named.png', '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000003', 'test_hidden', 'https://example.com/hidden.png', '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000004', 'test_moderator', NULL, '{Social}', 'moderator');
+
+INSERT INTO posts (id, user_id, categories, image_urls, questions, status, reviews_required) VALUES
+  ('00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/1.jpg}', '{}', 'live', 3);
+
+INSERT INTO reviews (id, post_id, reviewer_id, confidence_score, style_score, approachability_score, general_feedback, is_anonymous) VALUES
+  ('00000000-0000-4000-c000-000000000001', '00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000002', 7, 7, 7, 'Named review', false),
+  ('00000000-0000-4000-c000-000000000002', '00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000003', 5, 5, 5, 'Anonymous review', true);
+
+-- Post owner
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM reviews WHERE post_id = '00000000-0000-4000-b000-000000000001' $$,
+  'Post owners cannot read reviews from the table'
+);
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM public_reviews WHERE post_id = '00000000-0000-4000-b000-000000000001' $$,
+  ARRAY[2],
+  'Post owners read both reviews through public_reviews'
+);
+SELECT is(
+  (SELECT reviewer_id FROM public_reviews WHERE id = '00000000-0000-4000-c000-000000000002'),
+  NULL,
+  'Anonymous reviews carry no reviewer_id'
+);
+SELECT is(
+  (SELECT reviewer_username FROM public_reviews WHERE id = '00000000-0000-4000-c000-000000000002'),
+  NULL,
+  'Anonymous reviews carry no username'
+);
+SELECT is(
+  (SELECT reviewer_avatar_url FROM public_reviews WHERE id = '00000000-0000-4000-c000-000000000002'),
+  NULL,
+  'Anonymous reviews carry no avatar'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM public_reviews v, jsonb_each_text(to_jsonb(v)) AS field
+     WHERE v.id = '00000000-0000-4000-c000-000000000002'
+       AND field.value IN ('00000000-0000-4000-a000-000000000003', 'test_hidden', 'https://example.com/hidden.png') $$,
+  'No column of an anonymous review holds anything identifying its reviewer'
+);
+SELECT results_eq(
+  $$ SELECT reviewer_id, reviewer_username FROM public_reviews WHERE id = '00000000-0000-4000-c000-000000000001' $$,
+  $$ VALUES ('00000000-0000-4000-a000-000000000002'::uuid, 'test_named'::text) $$,
+  'Named reviews keep their reviewer'
+);
+
+-- Signed-out visitor
+SET LOCAL role anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM reviews $$,
+  'Visitors cannot read reviews from the table'
+);
+SELECT is(
+  (SELECT reviewer_id FROM public_reviews WHERE id = '00000000-0000-4000-c000-000000000002'),
+  NULL,
+  'Visitors get no reviewer_id on anonymous reviews'
+);
+
+-- The anonymous reviewer
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000003", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM reviews $$,
+  $$ VALUES ('00000000-0000-4000-c000-000000000002'::uuid) $$,
+  'Reviewers read only their own rows from the table'
+);
+
+-- Another reviewer
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000002", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM reviews WHERE id = '00000000-0000-4000-c000-000000000002' $$,
+  'Other reviewers cannot read an anonymous review from the table'
+);
+
+-- Moderator
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000004", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM reviews WHERE post_id = '00000000-0000-4000-b000-000000000001' $$,
+  ARRAY[2],
+  'Moderators read every review from the table'
+);
+
+SELECT is_empty(
+  $$ UPDATE reviews SET general_feedback = 'Rewritten', confidence_score = 1
+     WHERE id = '00000000-0000-4000-c000-000000000001' RETURNING 1 $$,
+  'Moderators cannot rewrite a review'
+);
+SELECT lives_ok(
+  $$ SELECT set_review_hidden('00000000-0000-4000-c000-000000000001', true) $$,
+  'Moderators hide reviews through set_review_hidden'
+);
+
+-- Hidden reviews leave public_reviews
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public_reviews WHERE id = '00000000-0000-4000-c000-000000000001' $$,
+  'Hidden reviews are not in public_reviews'
+);
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM public_reviews WHERE post_id = '00000000-0000-4000-b000-000000000001' $$,
+  ARRAY[1],
+  'The remaining review is still readable'
+);
+SELECT results_eq(
+  $$ SELECT id, is_hidden FROM list_received_reviews() ORDER BY id $$,
+  $$ VALUES ('00000000-0000-4000-c000-000000000001'::uuid, true), ('00000000-0000-4000-c000-000000000002'::uuid, false) $$,
+  'Post owners export hidden reviews too, flagged as hidden'
+);
+SELECT is(
+  (SELECT reviewer_id FROM list_received_reviews() WHERE id = '00000000-0000-4000-c000-000000000002'),
+  NULL,
+  'Exported anonymous reviews carry no reviewer_id'
+);
+SELECT throws_ok(
+  $$ SELECT set_review_hidden('00000000-0000-4000-c000-000000000002', true) $$,
+  '42501', NULL,
+  'Post owners cannot hide reviews'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
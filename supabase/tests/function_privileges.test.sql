@@ -0,0 +1,43 @@
+-- Internal SECURITY DEFINER helpers and trigger functions must not be
+-- callable by API roles, and must not resolve tables through the caller's
+-- search_path. Runs against a database with every migration applied; see
+-- "Database tests" in the README.
+BEGIN;
+SELECT plan(4);
+
+CREATE TEMP TABLE internal_functions (name text PRIMARY KEY);
+INSERT INTO internal_functions VALUES
+  ('refresh_score_means'), ('apply_review_scores'), ('on_review_changed'), ('on_post_deleted'),
+  ('release_queued_posts'), ('on_ledger_entry'), ('on_review_earn_credit'), ('on_post_queued'),
+  ('check_post_open_for_review');
+
+SELECT is_empty(
+  $$ SELECT p.oid::regprocedure::text FROM pg_proc p JOIN internal_functions f ON f.name = p.proname
+     WHERE p.pronamespace = 'public'::regnamespace
+       AND (has_function_privilege('anon', p.oid, 'EXECUTE') OR has_function_privilege('authenticated', p.oid, 'EXECUTE')) $$,
+  'API roles cannot execute internal functions'
+);
+SELECT is_empty(
+  $$ SELECT p.oid::regprocedure::text FROM pg_proc p JOIN internal_functions f ON f.name = p.proname
+     WHERE p.pronamespace = 'public'::regnamespace
+       AND NOT coalesce(p.proconfig @> ARRAY['search_path=public'], false) $$,
+  'Internal functions pin their search_path'
+);
+
+-- A signed-in user without a role
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT release_queued_posts('00000000-0000-4000-a000-000000000002') $$,
+  '42501', NULL,
+  'Users cannot spend another user''s credits on their queued posts'
+);
+SELECT throws_ok(
+  $$ SELECT admin_grant_credits('00000000-0000-4000-a000-000000000001', 1000) $$,
+  '42501', NULL,
+  'Users cannot grant themselves credits'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,189 @@
+-- Users write only their own profile, posts and storage folder, and only the
+-- columns the app edits; admins may act on anyone's. Runs against a database
+-- with every migration applied; see "Database tests" in the README.
+BEGIN;
+SELECT plan(29);
+
+-- Fixtures, written as the table owner so no policy or guard gets in the way
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'owner@example.com'),
+  ('00000000-0000-4000-a000-000000000002', 'other@example.com'),
+  ('00000000-0000-4000-a000-000000000003', 'admin@example.com'),
+  ('00000000-0000-4000-a000-000000000004', 'new@example.com');
+
+INSERT INTO profiles (id, username, interests, role) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'test_owner', '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000002', 'test_other', '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000003', 'test_admin', '{Social}', 'admin');
+
+INSERT INTO posts (id, user_id, categories, image_urls, questions, status, reviews_required) VALUES
+  ('00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/1.jpg}', '{}', 'draft', 3),
+  ('00000000-0000-4000-b000-000000000002', '00000000-0000-4000-a000-000000000002', '{Social}', '{https://example.com/2.jpg}', '{}', 'live', 3),
+  ('00000000-0000-4000-b000-000000000003', '00000000-0000-4000-a000-000000000002', '{Social}', '{https://example.com/3.jpg}', '{}', 'live', 3),
+  ('00000000-0000-4000-b000-000000000004', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/4.jpg}', '{}', 'draft', 3);
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('photos', '00000000-0000-4000-a000-000000000002/photo.jpg');
+
+-- Newer storage versions refuse direct deletes unless this is set
+SELECT set_config('storage.allow_delete_query', 'true', true);
+
+-- Profiles, as a regular user
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE profiles SET username = 'test_owner_renamed', interests = '{Fashion}', review_anonymously = false
+     WHERE id = '00000000-0000-4000-a000-000000000001' $$,
+  'Users update their own username, interests and review default'
+);
+SELECT is_empty(
+  $$ UPDATE profiles SET username = 'hijacked' WHERE id = '00000000-0000-4000-a000-000000000002' RETURNING 1 $$,
+  'Users cannot update another user''s profile'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET credit_balance = 1000 WHERE id = '00000000-0000-4000-a000-000000000001' $$,
+  '42501', NULL,
+  'Users cannot set their own credit balance'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET posts_remaining_to_unlock = 0 WHERE id = '00000000-0000-4000-a000-000000000001' $$,
+  '42501', NULL,
+  'Users cannot reset their own unlock counter'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET review_count = 1000 WHERE id = '00000000-0000-4000-a000-000000000001' $$,
+  '42501', NULL,
+  'Users cannot set their own aggregates'
+);
+SELECT throws_ok(
+  $$ UPDATE profiles SET role = 'admin' WHERE id = '00000000-0000-4000-a000-000000000001' $$,
+  '42501', NULL,
+  'Users cannot promote themselves'
+);
+SELECT throws_ok(
+  $$ INSERT INTO profiles (id, username) VALUES ('00000000-0000-4000-a000-000000000004', 'test_new') $$,
+  '42501', NULL,
+  'Users cannot create a profile for someone else'
+);
+
+-- Posts, as a regular user
+SELECT lives_ok(
+  $$ INSERT INTO posts (user_id, post_type, categories, image_urls, thumbnail_urls, questions, status, reviews_required)
+     VALUES ('00000000-0000-4000-a000-000000000001', 'rating', '{Social}', '{https://example.com/5.jpg}', '{}', '{}', 'draft', 3) $$,
+  'Users create their own posts'
+);
+SELECT throws_ok(
+  $$ INSERT INTO posts (user_id, categories, image_urls, status, reviews_required)
+     VALUES ('00000000-0000-4000-a000-000000000002', '{Social}', '{https://example.com/6.jpg}', 'draft', 3) $$,
+  '42501', NULL,
+  'Users cannot create posts for someone else'
+);
+SELECT throws_ok(
+  $$ INSERT INTO posts (user_id, categories, image_urls, status, reviews_required, reviews_received)
+     VALUES ('00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/7.jpg}', 'draft', 3, 3) $$,
+  '42501', NULL,
+  'Users cannot create posts with reviews already received'
+);
+SELECT lives_ok(
+  $$ UPDATE posts SET status = 'locked' WHERE id = '00000000-0000-4000-b000-000000000001' $$,
+  'Owners publish their drafts'
+);
+SELECT throws_ok(
+  $$ UPDATE posts SET status = 'live' WHERE id = '00000000-0000-4000-b000-000000000004' $$,
+  '42501', NULL,
+  'Owners cannot put a post live without spending credits'
+);
+SELECT throws_ok(
+  $$ UPDATE posts SET credits_spent = 10 WHERE id = '00000000-0000-4000-b000-000000000004' $$,
+  '42501', NULL,
+  'Owners cannot set the credits spent on a post'
+);
+SELECT is_empty(
+  $$ UPDATE posts SET categories = '{Fashion}' WHERE id = '00000000-0000-4000-b000-000000000002' RETURNING 1 $$,
+  'Users cannot edit another user''s post'
+);
+SELECT is_empty(
+  $$ DELETE FROM posts WHERE id = '00000000-0000-4000-b000-000000000002' RETURNING 1 $$,
+  'Users cannot delete another user''s post'
+);
+SELECT results_eq(
+  $$ DELETE FROM posts WHERE id = '00000000-0000-4000-b000-000000000004' RETURNING id $$,
+  $$ VALUES ('00000000-0000-4000-b000-000000000004'::uuid) $$,
+  'Owners delete their own posts'
+);
+
+-- Storage, as a regular user
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', '00000000-0000-4000-a000-000000000001/own.jpg') $$,
+  'Users upload into their own folder'
+);
+SELECT lives_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', 'avatars/00000000-0000-4000-a000-000000000001/avatar.jpg') $$,
+  'Users upload their own avatar'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', '00000000-0000-4000-a000-000000000002/planted.jpg') $$,
+  '42501', NULL,
+  'Users cannot upload into another user''s folder'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', 'avatars/00000000-0000-4000-a000-000000000002/avatar.jpg') $$,
+  '42501', NULL,
+  'Users cannot upload another user''s avatar'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', 'loose.jpg') $$,
+  '42501', NULL,
+  'Users cannot upload outside a user folder'
+);
+SELECT is_empty(
+  $$ UPDATE storage.objects SET name = '00000000-0000-4000-a000-000000000001/moved.jpg'
+     WHERE name = '00000000-0000-4000-a000-000000000002/photo.jpg' RETURNING 1 $$,
+  'Users cannot move another user''s photo'
+);
+SELECT is_empty(
+  $$ DELETE FROM storage.objects WHERE name = '00000000-0000-4000-a000-000000000002/photo.jpg' RETURNING 1 $$,
+  'Users cannot delete another user''s photo'
+);
+
+-- Signed-out visitor
+SET LOCAL role anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE profiles SET username = 'hijacked' WHERE id = '00000000-0000-4000-a000-000000000001' $$,
+  '42501', NULL,
+  'Visitors cannot update profiles'
+);
+SELECT throws_ok(
+  $$ INSERT INTO storage.objects (bucket_id, name) VALUES ('photos', '00000000-0000-4000-a000-000000000001/anon.jpg') $$,
+  '42501', NULL,
+  'Visitors cannot upload photos'
+);
+
+-- Admin
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000003", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE profiles SET username = 'test_other_renamed' WHERE id = '00000000-0000-4000-a000-000000000002' $$,
+  'Admins update any profile'
+);
+SELECT lives_ok(
+  $$ UPDATE posts SET status = 'archived' WHERE id = '00000000-0000-4000-b000-000000000002' $$,
+  'Admins change any post status'
+);
+SELECT results_eq(
+  $$ DELETE FROM posts WHERE id = '00000000-0000-4000-b000-000000000003' RETURNING id $$,
+  $$ VALUES ('00000000-0000-4000-b000-000000000003'::uuid) $$,
+  'Admins delete any post'
+);
+SELECT results_eq(
+  $$ DELETE FROM storage.objects WHERE name = '00000000-0000-4000-a000-000000000002/photo.jpg' RETURNING name $$,
+  $$ VALUES ('00000000-0000-4000-a000-000000000002/photo.jpg'::text) $$,
+  'Admins delete any photo'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
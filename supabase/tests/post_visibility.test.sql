@@ -0,0 +1,80 @@
+-- Only live posts are public; drafts, queued, completed and archived posts
+-- are visible to their owner, moderators and admins. Runs against a database
+-- with every migration applied; see "Database tests" in the README.
+BEGIN;
+SELECT plan(8);
+
+-- Fixtures, written as the table owner so no policy or guard gets in the way
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'owner@example.com'),
+  ('00000000-0000-4000-a000-000000000002', 'other@example.com'),
+  ('00000000-0000-4000-a000-000000000003', 'moderator@example.com');
+
+INSERT INTO profiles (id, username, interests, role) VALUES
+  ('00000000-0000-4000-a000-000000000001', 'test_owner', '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000002', 'test_other', '{Social}', 'user'),
+  ('00000000-0000-4000-a000-000000000003', 'test_moderator', '{Social}', 'moderator');
+
+INSERT INTO posts (id, user_id, categories, image_urls, questions, status, reviews_required) VALUES
+  ('00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/1.jpg}', '{}', 'draft', 3),
+  ('00000000-0000-4000-b000-000000000002', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/2.jpg}', '{}', 'locked', 3),
+  ('00000000-0000-4000-b000-000000000003', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/3.jpg}', '{}', 'live', 3),
+  ('00000000-0000-4000-b000-000000000004', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/4.jpg}', '{}', 'completed', 3),
+  ('00000000-0000-4000-b000-000000000005', '00000000-0000-4000-a000-000000000001', '{Social}', '{https://example.com/5.jpg}', '{}', 'archived', 3);
+
+-- Anonymous visitors
+SET LOCAL role anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$ SELECT status FROM posts WHERE user_id = '00000000-0000-4000-a000-000000000001' $$,
+  ARRAY['live'],
+  'Anonymous visitors see only live posts'
+);
+
+-- Another user
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000002", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT status FROM posts WHERE user_id = '00000000-0000-4000-a000-000000000001' $$,
+  ARRAY['live'],
+  'Other users see only live posts'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM posts WHERE id = '00000000-0000-4000-b000-000000000001' $$,
+  'Other users cannot read a draft'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM posts WHERE id = '00000000-0000-4000-b000-000000000002' $$,
+  'Other users cannot read a queued post'
+);
+SELECT is_empty(
+  $$ SELECT 1 FROM posts WHERE id = '00000000-0000-4000-b000-000000000005' $$,
+  'Other users cannot read an archived post'
+);
+
+-- The owner
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000001", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM posts WHERE user_id = '00000000-0000-4000-a000-000000000001' $$,
+  ARRAY[5],
+  'Owners see all of their posts'
+);
+
+-- A moderator
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-4000-a000-000000000003", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT count(*)::int FROM posts WHERE user_id = '00000000-0000-4000-a000-000000000001' $$,
+  ARRAY[5],
+  'Moderators see every post'
+);
+SELECT isnt_empty(
+  $$ SELECT 1 FROM posts WHERE id = '00000000-0000-4000-b000-000000000001' $$,
+  'Moderators can read a draft'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -1,27 +1,77 @@
 
 export type Category = 'Dating' | 'Professional' | 'Fashion' | 'Social' | 'Lifestyle';
 
-export interface Profile {
-  id: string;
-  username: string;
-  avatar_url?: string;
-  interests: Category[] | null;
+// 'rating' posts are scored on RATING_METRICS; 'comparison' posts ask
+// reviewers to pick the better of each pair of photos
+export type PostType = 'rating' | 'comparison';
+
+// Ordered: moderators can do everything users can, admins everything
+export type UserRole = 'user' | 'moderator' | 'admin';
+
+// draft: saved by the owner, not queued yet
+// locked: queued until the owner's credit balance covers its cost
+// live: in the review feed
+// completed: received every review it asked for
+// archived: withdrawn by the owner, results stay visible to them
+export type PostStatus = 'draft' | 'locked' | 'live' | 'completed' | 'archived';
+
+// Running sums over every visible (non-hidden) review, maintained by the
+// database. They let us derive exact means and confidence intervals.
+export interface ScoreSums {
+  confidence_sum: number;
+  confidence_sq_sum: number;
+  style_sum: number;
+  style_sq_sum: number;
+  approachability_sum: number;
+  approachability_sq_sum: number;
+}
+
+export interface ProfileAggregates extends ScoreSums {
+  // Means across all reviews received on the user's posts
   total_confidence: number;
   total_style: number;
   total_approachability: number;
   review_count: number;
-  posts_remaining_to_unlock: number;
 }
 
-export interface Post {
+export interface Profile extends ProfileAggregates {
+  id: string;
+  username: string;
+  avatar_url?: string | null;
+  interests: Category[] | null;
+  // Sum of the user's credit_ledger entries, maintained by the database
+  credit_balance: number;
+  // Only admins can change it; see migration 0012_roles
+  role: UserRole;
+  // Starting value of a new review's "post anonymously" switch
+  review_anonymously: boolean;
+  // Set while the account waits out its deletion grace period
+  deletion_requested_at: string | null;
+  // Whether reviews written on other people's posts outlive the account, anonymously
+  keep_reviews_on_deletion: boolean;
+}
+
+export interface PostAggregates extends ScoreSums {
+  score_count: number;
+  avg_confidence: number;
+  avg_style: number;
+  avg_approachability: number;
+}
+
+export interface Post extends PostAggregates {
   id: string;
   user_id: string;
+  post_type: PostType;
   categories: Category[];
   image_urls: string[];
+  // Small variants of image_urls, same order; empty on older posts
+  thumbnail_urls: string[];
   questions: string[];
-  is_live: boolean;
+  status: PostStatus;
   reviews_required: number;
   reviews_received: number;
+  // Credits paid when the post left the queue; 0 while it waits for credits
+  credits_spent: number;
   created_at: string;
   // Join data
   profiles?: {
@@ -30,16 +80,41 @@ export interface Post {
   };
 }
 
-export interface Review {
-  id: string;
-  post_id: string;
-  reviewer_id: string;
+// One "which photo is better" answer on a comparison post
+export interface PairwiseVote {
+  winner_index: number;
+  loser_index: number;
+  reason?: string;
+}
+
+// Optional scores a reviewer gave one photo of a multi-image post
+export interface ImageScore {
+  image_index: number;
   confidence_score: number;
   style_score: number;
   approachability_score: number;
+}
+
+export interface Review {
+  id: string;
+  post_id: string;
+  // Null on anonymous reviews read by anyone but moderators
+  reviewer_id: string | null;
+  // Null on comparison posts, which are judged pairwise instead
+  confidence_score: number | null;
+  style_score: number | null;
+  approachability_score: number | null;
+  // Empty unless the reviewer chose to rate each photo separately
+  image_scores: ImageScore[];
+  // Only set on comparison posts
+  comparisons: PairwiseVote[];
   answers: string[];
   general_feedback: string;
   is_anonymous: boolean;
+  // Hidden by a moderator: excluded from aggregates and from the owner's view
+  is_hidden: boolean;
+  // Marked helpful by the post owner, which pays the reviewer a bonus
+  is_helpful: boolean;
   created_at: string;
   // Join data
   profiles?: {
@@ -48,9 +123,24 @@ export interface Review {
   };
 }
 
+export type MetricKey = 'confidence' | 'style' | 'approachability';
+
+export type CreditKind = 'opening_balance' | 'review_earned' | 'post_spent' | 'post_extended' | 'helpful_bonus' | 'admin_grant';
+
+export interface CreditTransaction {
+  id: string;
+  user_id: string;
+  // Positive when credits are earned, negative when spent
+  amount: number;
+  kind: CreditKind;
+  post_id: string | null;
+  review_id: string | null;
+  created_at: string;
+}
+
 export interface RatingMetric {
   label: string;
-  key: 'confidence' | 'style' | 'approachability';
+  key: MetricKey;
   description: string;
 }
 
@@ -61,3 +151,39 @@ export const RATING_METRICS: RatingMetric[] = [
   { label: 'Style', key: 'style', description: 'Sense of fashion and presentation' },
   { label: 'Approachability', key: 'approachability', description: 'How friendly/inviting is the vibe?' }
 ];
+
+// Keep in sync with the amounts used by the credit functions in the SQL setup
+export const CREDIT_RULES = {
+  reviewReward: 1,
+  // A post costs this much per review it asks for
+  reviewCost: 1,
+  helpfulBonus: 1
+};
+
+// Weights of the Recommended feed score. Keep in sync with ranked_feed
+// (migration 0016). Waiting time is uncapped while the other terms add up to
+// at most 4.5, so a post left unreviewed for about four and a half days
+// outranks every newer post, whatever the viewer's interests.
+export const FEED_RANKING = {
+  // Times the share of requested reviews still missing
+  missingReviews: 3,
+  perDayWaiting: 1,
+  // Times the share of the post's categories in the viewer's interests
+  interestMatch: 1,
+  // Times the share of its categories the viewer has reviewed before
+  reviewHistory: 0.5
+};
+
+// Days between requesting account deletion and the account being deleted.
+// Keep in sync with account_deletion_grace() (migration 0021).
+export const ACCOUNT_DELETION = {
+  graceDays: 7
+};
+
+// How many reviews a new post may ask for, and how many one extension adds at most
+export const REVIEW_LIMITS = {
+  min: 3,
+  max: 10,
+  default: 3,
+  maxExtension: 10
+};